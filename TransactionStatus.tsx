@@ -0,0 +1,233 @@
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, ExternalLink } from "lucide-react";
+import { useState, useSyncExternalStore } from "react";
+import { toast } from "sonner";
+import { formatEther, Hex } from "viem";
+import {
+    getLatency,
+    TransactionStatus as Status,
+    TransactionStore,
+    TransactionSummary,
+} from "./transactionStore";
+
+const TITLES: Record<Status, string> = {
+    pending: "Sending transaction.",
+    broadcast: "Sent transaction.",
+    confirmed: "Confirmed transaction.",
+    failed: "Transaction failed.",
+    replaced: "Transaction replaced.",
+    timeout: "Transaction not confirmed in time.",
+};
+
+// Replaces a transaction that was not confirmed in time, by its hash.
+export type TransactionReplacer = {
+    speedUp: (hash: Hex) => Promise<unknown>;
+    cancel: (hash: Hex) => Promise<unknown>;
+};
+
+function describe(
+    summary: TransactionSummary,
+    replaceable: boolean
+): string | undefined {
+    const text = summary.description ?? "";
+    switch (summary.status) {
+        case "broadcast":
+            return `${text} Time: ${summary.broadcastAt! - summary.startedAt} ms`;
+        case "confirmed":
+            return `${text} Time: ${getLatency(summary)} ms`;
+        case "failed":
+            return summary.error ?? text;
+        case "replaced":
+            return `${text} Cancelled.`;
+        case "timeout":
+            return replaceable ? `${text} Speed it up or cancel it.` : text;
+        default:
+            return text || undefined;
+    }
+}
+
+export function ExplorerButton({ url }: { url: string }) {
+    return (
+        <Button
+            className="outline outline-white"
+            onClick={() => window.open(url, "_blank", "noopener,noreferrer")}
+        >
+            <div className="flex items-center gap-1 p-1">
+                <p>View</p>
+                <ExternalLink className="w-4 h-4" />
+            </div>
+        </Button>
+    );
+}
+
+const REPLACE_FAILED: Record<keyof TransactionReplacer, string> = {
+    speedUp: "Failed to speed up transaction.",
+    cancel: "Failed to cancel transaction.",
+};
+
+// Speed-up and cancel buttons for a transaction not confirmed in time.
+function ReplaceButtons({
+    hash,
+    replacer,
+    explorerUrl,
+}: {
+    hash: Hex;
+    replacer: TransactionReplacer;
+    explorerUrl?: string;
+}) {
+    const replace = (kind: keyof TransactionReplacer) =>
+        replacer[kind](hash).catch((error: Error) => {
+            toast.error(REPLACE_FAILED[kind], { description: error.message });
+        });
+
+    return (
+        <div className="flex items-center gap-1">
+            <Button
+                className="outline outline-white"
+                onClick={() => replace("speedUp")}
+            >
+                <p className="p-1">Speed up</p>
+            </Button>
+            <Button
+                className="outline outline-white"
+                onClick={() => replace("cancel")}
+            >
+                <p className="p-1">Cancel</p>
+            </Button>
+            {explorerUrl && <ExplorerButton url={explorerUrl} />}
+        </div>
+    );
+}
+
+// Shows a transaction as one toast that is updated in place as it moves
+// from pending to broadcast to its outcome. A transaction not confirmed in
+// time gets speed-up and cancel buttons when `replacer` is given.
+export function showTransactionStatus(
+    summary: TransactionSummary,
+    explorerUrl?: string,
+    replacer?: TransactionReplacer
+) {
+    const replaceable =
+        summary.status === "timeout" && !!summary.hash && !!replacer;
+    const options = {
+        id: `transaction-${summary.id}`,
+        description: describe(summary, replaceable),
+        action: replaceable ? (
+            <ReplaceButtons
+                hash={summary.hash!}
+                replacer={replacer!}
+                explorerUrl={explorerUrl}
+            />
+        ) : explorerUrl ? (
+            <ExplorerButton url={explorerUrl} />
+        ) : undefined,
+    };
+    const title = TITLES[summary.status];
+
+    switch (summary.status) {
+        case "pending":
+        case "broadcast":
+            toast.loading(title, options);
+            break;
+        case "confirmed":
+            toast.success(title, options);
+            break;
+        case "failed":
+            toast.error(title, options);
+            break;
+        case "timeout":
+            toast.warning(title, options);
+            break;
+        default:
+            toast.info(title, options);
+    }
+}
+
+// One row of the history panel.
+export function TransactionStatus({
+    summary,
+    explorerUrl,
+}: {
+    summary: TransactionSummary;
+    explorerUrl?: string;
+}) {
+    const latency = getLatency(summary);
+
+    return (
+        <li className="flex items-center justify-between gap-2 py-1 text-sm">
+            <div className="flex flex-col">
+                <p>
+                    {summary.moveNumber !== undefined
+                        ? `Move ${summary.moveNumber}`
+                        : summary.label}
+                    {" · "}
+                    {summary.status}
+                </p>
+                <p className="text-xs opacity-70">
+                    {latency !== undefined ? `${latency} ms` : "…"}
+                    {summary.gasCost !== undefined &&
+                        ` · ${formatEther(summary.gasCost)} ETH`}
+                    {summary.error && ` · ${summary.error}`}
+                </p>
+            </div>
+            {explorerUrl && (
+                <a
+                    href={explorerUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    aria-label="View on explorer"
+                >
+                    <ExternalLink className="w-4 h-4" />
+                </a>
+            )}
+        </li>
+    );
+}
+
+// Collapsible list of every transaction sent this session, newest first.
+export function TransactionHistoryPanel({
+    store,
+    getExplorerUrl,
+}: {
+    store: TransactionStore;
+    getExplorerUrl: (hash: string) => string | undefined;
+}) {
+    const [open, setOpen] = useState(false);
+    const transactions = useSyncExternalStore(
+        store.subscribe,
+        store.getSnapshot
+    );
+
+    return (
+        <div className="flex flex-col gap-1">
+            <Button
+                className="outline outline-white"
+                onClick={() => setOpen(!open)}
+            >
+                <div className="flex items-center gap-1 p-1">
+                    <p>Transactions ({transactions.length})</p>
+                    {open ? (
+                        <ChevronUp className="w-4 h-4" />
+                    ) : (
+                        <ChevronDown className="w-4 h-4" />
+                    )}
+                </div>
+            </Button>
+            {open && (
+                <ul className="max-h-64 overflow-y-auto">
+                    {[...transactions].reverse().map((summary) => (
+                        <TransactionStatus
+                            key={summary.id}
+                            summary={summary}
+                            explorerUrl={
+                                summary.hash
+                                    ? getExplorerUrl(summary.hash)
+                                    : undefined
+                            }
+                        />
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,320 @@
+import { Hex } from "viem";
+import {
+    applyMove,
+    BoardCells,
+    boardScore,
+    isGameOver,
+    maxTile,
+    packBoard,
+} from "./boardEngine";
+import { createExpectimaxSolver, ExpectimaxSolver } from "./expectimax";
+import { spawnTile } from "./gameSetup";
+
+export type AutoplayStatus = "idle" | "running" | "paused";
+
+export type AutoplayEndReason =
+    "gameOver" | "spendLimit" | "stopped" | "failed";
+
+export type AutoplayGameReport = {
+    gameId: Hex;
+    // Moves the bot played in this game.
+    moves: number;
+    // Implied by the board, counting every spawned tile as a 2.
+    score: number;
+    maxTile: number;
+    // Gas cost of the bot's transactions for this game, `startGame` included.
+    gasSpent: bigint;
+    // Undefined while the game is in play.
+    endReason?: AutoplayEndReason;
+    error?: string;
+};
+
+export type AutoplayReport = {
+    status: AutoplayStatus;
+    games: AutoplayGameReport[];
+    totalMoves: number;
+    totalGasSpent: bigint;
+};
+
+// Rejection of `playMove` or `startGame` whose transaction was mined anyway,
+// e.g. reverted or cancelled: its gas still counts towards the spend limit.
+export class AutoplayGasError extends Error {
+    // Game the transaction was for; `startGame` must set it.
+    public readonly gameId?: Hex;
+
+    constructor(
+        public readonly gasCost: bigint,
+        options?: { gameId?: Hex; cause?: unknown }
+    ) {
+        super("The transaction failed after paying for gas.", options);
+        this.name = "AutoplayGasError";
+        this.gameId = options?.gameId;
+    }
+}
+
+// Gas a failed `playMove` or `startGame` still cost.
+function failedGasCost(error: unknown): bigint {
+    return error instanceof AutoplayGasError ? error.gasCost : 0n;
+}
+
+export type Autoplay = ReturnType<typeof createAutoplay>;
+
+// Plays whole games without a player: reads the board from the chain, lets
+// the solver pick a move, spawns a tile on the result and sends it. Stops at
+// game over, when the next move would exceed `spendLimit`, or on `stop`.
+export function createAutoplay({
+    solver = createExpectimaxSolver(),
+    readBoard,
+    playMove,
+    startGame,
+    spendLimit,
+    maxRetries = 3,
+    random = Math.random,
+}: {
+    solver?: ExpectimaxSolver;
+    // Latest board of a game and the number of its next move.
+    readBoard: (gameId: Hex) => Promise<readonly [BoardCells, bigint]>;
+    // Sends a move and resolves with its gas cost once confirmed. Rejects
+    // with an `AutoplayGasError` if it failed after paying for gas.
+    playMove: (
+        gameId: Hex,
+        board: bigint,
+        move: number,
+        moveNumber: number
+    ) => Promise<bigint>;
+    // Starts a new game and resolves with its ID and gas cost. Rejects like
+    // `playMove`.
+    startGame: () => Promise<{ gameId: Hex; gasCost: bigint }>;
+    // Most the bot may spend on gas in one run, in wei.
+    spendLimit?: bigint;
+    // Failed moves in a row before a game is given up.
+    maxRetries?: number;
+    // Picks spawned tiles; swap in a seeded one for reproducible runs.
+    random?: () => number;
+}) {
+    const listeners = new Set<(report: AutoplayReport) => void>();
+    let status: AutoplayStatus = "idle";
+    let games: AutoplayGameReport[] = [];
+    let stopRequested = false;
+    let resumeGate: { promise: Promise<void>; resolve: () => void } | null =
+        null;
+    // Cost of the last move, used to tell whether the next one still fits.
+    let lastMoveCost = 0n;
+
+    function getReport(): AutoplayReport {
+        return {
+            status,
+            games,
+            totalMoves: games.reduce((total, game) => total + game.moves, 0),
+            totalGasSpent: games.reduce(
+                (total, game) => total + game.gasSpent,
+                0n
+            ),
+        };
+    }
+
+    function notify() {
+        const report = getReport();
+        listeners.forEach((listener) => listener(report));
+    }
+
+    function setStatus(next: AutoplayStatus) {
+        status = next;
+        notify();
+    }
+
+    // Replaces the report of the game being played.
+    function updateGame(patch: Partial<AutoplayGameReport>) {
+        games = [
+            ...games.slice(0, -1),
+            { ...games[games.length - 1], ...patch },
+        ];
+        notify();
+    }
+
+    function overSpendLimit() {
+        return (
+            spendLimit !== undefined &&
+            getReport().totalGasSpent + lastMoveCost > spendLimit
+        );
+    }
+
+    // Draws numbers in `[0, bound)` for `spawnTile`.
+    function randomBelow(bound: number): number {
+        return Math.floor(random() * bound);
+    }
+
+    // Resolves right away unless paused, otherwise once resumed or stopped.
+    function whilePaused(): Promise<void> {
+        return resumeGate?.promise ?? Promise.resolve();
+    }
+
+    // Plays one game to its end and says why it ended.
+    async function playGame(gameId: Hex): Promise<AutoplayEndReason> {
+        let failures = 0;
+
+        while (true) {
+            await whilePaused();
+            if (stopRequested) {
+                return "stopped";
+            }
+
+            try {
+                const [cells, nextMoveNumber] = await readBoard(gameId);
+                updateGame({
+                    score: boardScore(cells),
+                    maxTile: maxTile(cells),
+                });
+
+                const move = solver.chooseMove(cells);
+                if (move === null || isGameOver(cells)) {
+                    return "gameOver";
+                }
+                if (overSpendLimit()) {
+                    return "spendLimit";
+                }
+
+                const result = packBoard(
+                    spawnTile(applyMove(cells, move).cells, randomBelow)
+                );
+                const gasCost = await playMove(
+                    gameId,
+                    result,
+                    move,
+                    Number(nextMoveNumber)
+                );
+
+                const game = games[games.length - 1];
+                lastMoveCost = gasCost;
+                failures = 0;
+                updateGame({
+                    moves: game.moves + 1,
+                    gasSpent: game.gasSpent + gasCost,
+                });
+            } catch (error) {
+                // The next read picks up wherever the chain left the game.
+                console.warn(`Autoplay move failed in ${gameId}:`, error);
+                const gasCost = failedGasCost(error);
+                if (gasCost > 0n) {
+                    lastMoveCost = gasCost;
+                }
+                updateGame({
+                    gasSpent: games[games.length - 1].gasSpent + gasCost,
+                    error: String(error),
+                });
+                if (++failures > maxRetries) {
+                    return "failed";
+                }
+            }
+        }
+    }
+
+    // Plays `games` games, continuing `gameId` first if given. Resolves with
+    // the report once the last game ended or the run was stopped.
+    async function run({
+        gameId,
+        games: gameCount = 1,
+    }: {
+        gameId?: Hex;
+        games?: number;
+    } = {}): Promise<AutoplayReport> {
+        if (status !== "idle") {
+            throw Error("Autoplay is already running.");
+        }
+        games = [];
+        stopRequested = false;
+        lastMoveCost = 0n;
+        setStatus("running");
+
+        try {
+            for (let i = 0; i < gameCount; i++) {
+                await whilePaused();
+                if (stopRequested || overSpendLimit()) {
+                    break;
+                }
+
+                let nextGameId = i === 0 ? gameId : undefined;
+                let startCost = 0n;
+                if (!nextGameId) {
+                    try {
+                        ({ gameId: nextGameId, gasCost: startCost } =
+                            await startGame());
+                    } catch (error) {
+                        // Keep the gas of a start that reverted in the report.
+                        if (error instanceof AutoplayGasError && error.gameId) {
+                            games = [
+                                ...games,
+                                {
+                                    gameId: error.gameId,
+                                    moves: 0,
+                                    score: 0,
+                                    maxTile: 0,
+                                    gasSpent: error.gasCost,
+                                    endReason: "failed",
+                                    error: String(error.cause ?? error),
+                                },
+                            ];
+                        }
+                        throw error;
+                    }
+                }
+                games = [
+                    ...games,
+                    {
+                        gameId: nextGameId,
+                        moves: 0,
+                        score: 0,
+                        maxTile: 0,
+                        gasSpent: startCost,
+                    },
+                ];
+
+                const endReason = await playGame(nextGameId);
+                console.log(`Autoplay ended ${nextGameId}: ${endReason}`);
+                updateGame({ endReason });
+                if (endReason !== "gameOver") {
+                    break;
+                }
+            }
+        } finally {
+            resumeGate = null;
+            setStatus("idle");
+        }
+        return getReport();
+    }
+
+    // Holds the bot after the move in flight.
+    function pause() {
+        if (status !== "running") {
+            return;
+        }
+        let resolve!: () => void;
+        const promise = new Promise<void>((r) => (resolve = r));
+        resumeGate = { promise, resolve };
+        setStatus("paused");
+    }
+
+    function resume() {
+        if (status !== "paused") {
+            return;
+        }
+        resumeGate?.resolve();
+        resumeGate = null;
+        setStatus("running");
+    }
+
+    // Ends the run after the move in flight; a paused run ends right away.
+    function stop() {
+        stopRequested = true;
+        resumeGate?.resolve();
+    }
+
+    function subscribe(listener: (report: AutoplayReport) => void) {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    return { run, pause, resume, stop, getReport, subscribe };
+}
@@ -0,0 +1,133 @@
+import { formatEther } from "viem";
+
+export class InsufficientBalanceError extends Error {
+    constructor(
+        public readonly required: bigint,
+        public readonly available: bigint
+    ) {
+        super(
+            `Signer has insufficient balance: needs ${formatEther(
+                required
+            )} ETH, has ${formatEther(available)} ETH available.`
+        );
+        this.name = "InsufficientBalanceError";
+    }
+}
+
+export type Reservation = {
+    cost: bigint;
+    label?: string;
+};
+
+// Number of settled costs per label used to estimate the next one.
+const COST_SAMPLES = 20;
+
+export type BalanceLedger = ReturnType<typeof createBalanceLedger>;
+
+// Tracks the signer's balance locally. Each transaction reserves its
+// worst-case cost (`gas * maxFeePerGas + value`) when it is signed, and
+// settles to the actual `gasUsed * effectiveGasPrice` from its receipt.
+export function createBalanceLedger() {
+    let balance = 0n;
+    const reservations = new Map<number, Reservation>();
+    const costs = new Map<string, bigint[]>();
+
+    function reserved(except?: number): bigint {
+        let total = 0n;
+        for (const [key, reservation] of reservations) {
+            if (key !== except) {
+                total += reservation.cost;
+            }
+        }
+        return total;
+    }
+
+    function reset(nextBalance: bigint) {
+        balance = nextBalance;
+        reservations.clear();
+    }
+
+    // Balance not held by pending transactions.
+    function available(): bigint {
+        return balance - reserved();
+    }
+
+    // Holds `cost` for the transaction with `nonce`, replacing any earlier
+    // reservation for it (e.g. when it is sped up).
+    function reserve(nonce: number, cost: bigint, label?: string) {
+        const free = balance - reserved(nonce);
+        if (cost > free) {
+            throw new InsufficientBalanceError(cost, free);
+        }
+        reservations.set(nonce, {
+            cost,
+            label: label ?? reservations.get(nonce)?.label,
+        });
+    }
+
+    // What is held for the transaction with `nonce`, if anything.
+    function reservation(nonce: number): Reservation | undefined {
+        return reservations.get(nonce);
+    }
+
+    // Puts back a reservation read with `reservation`, e.g. the original's
+    // after its replacement failed to send.
+    function restore(nonce: number, previous: Reservation | undefined) {
+        if (previous) {
+            reservations.set(nonce, previous);
+        } else {
+            reservations.delete(nonce);
+        }
+    }
+
+    // Drops the reservation of a transaction that never reached the node.
+    function release(nonce: number) {
+        reservations.delete(nonce);
+    }
+
+    // Charges the actual cost of a mined transaction.
+    function settle(nonce: number, cost: bigint) {
+        const label = reservations.get(nonce)?.label;
+        reservations.delete(nonce);
+        balance -= cost;
+
+        if (label) {
+            const samples = costs.get(label) ?? [];
+            samples.push(cost);
+            costs.set(label, samples.slice(-COST_SAMPLES));
+        }
+    }
+
+    // Average settled cost of transactions with `label`, if any settled.
+    function averageCost(label: string): bigint | undefined {
+        const samples = costs.get(label);
+        if (!samples?.length) {
+            return undefined;
+        }
+        return samples.reduce((sum, cost) => sum + cost, 0n) /
+            BigInt(samples.length);
+    }
+
+    // How many more transactions with `label` the available balance covers.
+    function affordable(label: string, fallbackCost?: bigint): number | undefined {
+        const cost = averageCost(label) ?? fallbackCost;
+        if (!cost) {
+            return undefined;
+        }
+        const free = available();
+        return free > 0n ? Number(free / cost) : 0;
+    }
+
+    return {
+        reset,
+        available,
+        reserve,
+        reservation,
+        restore,
+        release,
+        settle,
+        averageCost,
+        affordable,
+        balance: () => balance,
+    };
+}
@@ -0,0 +1,199 @@
+import { GameBoardArray } from "./mega2048Contract";
+
+// Move encoding used by `play` and `startGame`.
+export const Direction = {
+    UP: 0,
+    DOWN: 1,
+    LEFT: 2,
+    RIGHT: 3,
+} as const;
+
+export type Direction = (typeof Direction)[keyof typeof Direction];
+
+export const DIRECTIONS: readonly Direction[] = [
+    Direction.UP,
+    Direction.DOWN,
+    Direction.LEFT,
+    Direction.RIGHT,
+];
+
+// Cells hold tile exponents (0 = empty, 1 = 2, 2 = 4, ...), row by row.
+export type BoardCells = readonly number[];
+
+export type MoveResult = {
+    cells: number[];
+    // Whether any tile moved or merged.
+    changed: boolean;
+    // Sum of the values of the tiles created by merges.
+    scoreGained: number;
+};
+
+const SIZE = 4;
+const CELL_COUNT = SIZE * SIZE;
+
+// Exponents a newly spawned tile may have: a 2 or a 4.
+const SPAWN_EXPONENTS = [1, 2];
+
+// Unpacks a uint128 board. Cell 0 lives in the most significant byte.
+export function unpackBoard(board: bigint): GameBoardArray {
+    const cells: number[] = [];
+    for (let i = 0; i < CELL_COUNT; i++) {
+        cells.push(Number((board >> BigInt((CELL_COUNT - 1 - i) * 8)) & 0xffn));
+    }
+    return cells as unknown as GameBoardArray;
+}
+
+// Packs 16 tile exponents into the uint128 board `play` and `startGame` take.
+export function packBoard(cells: BoardCells): bigint {
+    if (cells.length !== CELL_COUNT) {
+        throw Error(`Board must have ${CELL_COUNT} cells, got ${cells.length}.`);
+    }
+    let board = 0n;
+    for (let i = 0; i < CELL_COUNT; i++) {
+        const cell = cells[i];
+        if (!Number.isInteger(cell) || cell < 0 || cell > 0xff) {
+            throw Error(`Invalid tile exponent ${cell} at cell ${i}.`);
+        }
+        board = (board << 8n) | BigInt(cell);
+    }
+    return board;
+}
+
+// Indices of one line, ordered from the edge tiles slide towards.
+function lineIndices(direction: Direction, line: number): number[] {
+    const indices: number[] = [];
+    for (let step = 0; step < SIZE; step++) {
+        switch (direction) {
+            case Direction.UP:
+                indices.push(step * SIZE + line);
+                break;
+            case Direction.DOWN:
+                indices.push((SIZE - 1 - step) * SIZE + line);
+                break;
+            case Direction.LEFT:
+                indices.push(line * SIZE + step);
+                break;
+            case Direction.RIGHT:
+                indices.push(line * SIZE + (SIZE - 1 - step));
+                break;
+        }
+    }
+    return indices;
+}
+
+// Slides and merges every line towards `direction`. Each tile merges at most
+// once per move, and merges resolve from the leading edge.
+export function applyMove(cells: BoardCells, direction: Direction): MoveResult {
+    if (!DIRECTIONS.includes(direction)) {
+        throw Error(`Invalid move: ${direction}`);
+    }
+
+    const next = [...cells];
+    let changed = false;
+    let scoreGained = 0;
+
+    for (let line = 0; line < SIZE; line++) {
+        const indices = lineIndices(direction, line);
+        const tiles = indices.map((i) => cells[i]).filter((cell) => cell !== 0);
+
+        const merged: number[] = [];
+        for (let i = 0; i < tiles.length; i++) {
+            if (i + 1 < tiles.length && tiles[i] === tiles[i + 1]) {
+                merged.push(tiles[i] + 1);
+                scoreGained += 2 ** (tiles[i] + 1);
+                i++;
+            } else {
+                merged.push(tiles[i]);
+            }
+        }
+
+        indices.forEach((index, step) => {
+            const cell = merged[step] ?? 0;
+            if (cell !== cells[index]) {
+                changed = true;
+            }
+            next[index] = cell;
+        });
+    }
+
+    return { cells: next, changed, scoreGained };
+}
+
+export function emptyCells(cells: BoardCells): number[] {
+    const empty: number[] = [];
+    cells.forEach((cell, i) => {
+        if (cell === 0) {
+            empty.push(i);
+        }
+    });
+    return empty;
+}
+
+// Places a tile with `exponent` on an empty cell.
+export function addTile(
+    cells: BoardCells,
+    position: number,
+    exponent: number
+): number[] {
+    if (cells[position] !== 0) {
+        throw Error(`Cell ${position} is not empty.`);
+    }
+    const next = [...cells];
+    next[position] = exponent;
+    return next;
+}
+
+// Value of the largest tile, e.g. 2048.
+export function maxTile(cells: BoardCells): number {
+    const exponent = Math.max(0, ...cells);
+    return exponent === 0 ? 0 : 2 ** exponent;
+}
+
+// Score implied by a board, assuming every spawned tile was a 2: a tile of
+// value 2^k took k - 1 merges worth 2^k in total each.
+export function boardScore(cells: BoardCells): number {
+    return cells.reduce(
+        (score, cell) => (cell > 1 ? score + (cell - 1) * 2 ** cell : score),
+        0
+    );
+}
+
+export function isGameOver(cells: BoardCells): boolean {
+    return DIRECTIONS.every((direction) => !applyMove(cells, direction).changed);
+}
+
+// Explains why `resultBoard` cannot follow from `board` and `move`, or returns
+// null when it can: the move must change the board and exactly one 2 or 4
+// must be spawned on a cell the move left empty.
+export function validateTransition(
+    board: bigint,
+    move: number,
+    resultBoard: bigint
+): string | null {
+    if (!DIRECTIONS.includes(move as Direction)) {
+        return `Invalid move: ${move}`;
+    }
+
+    const moved = applyMove(unpackBoard(board), move as Direction);
+    if (!moved.changed) {
+        return "Move does not change the board.";
+    }
+
+    const result = unpackBoard(resultBoard);
+    const spawned: number[] = [];
+    for (let i = 0; i < CELL_COUNT; i++) {
+        if (result[i] === moved.cells[i]) {
+            continue;
+        }
+        if (moved.cells[i] !== 0 || !SPAWN_EXPONENTS.includes(result[i])) {
+            return `Result board does not follow from the move at cell ${i}.`;
+        }
+        spawned.push(i);
+    }
+
+    if (spawned.length !== 1) {
+        return `Result board must add exactly one tile, found ${spawned.length}.`;
+    }
+
+    return null;
+}
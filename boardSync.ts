@@ -0,0 +1,135 @@
+import { Hex } from "viem";
+import { packBoard } from "./boardEngine";
+import { GameBoardArray } from "./mega2048Contract";
+
+// What the local game believes: the board after its last move, and the number
+// the next move will carry.
+export type LocalGameState = {
+    board: bigint;
+    nextMoveNumber: number;
+};
+
+export type ResyncResult = {
+    gameId: Hex;
+    // Board and move number as stored on chain.
+    board: bigint;
+    cells: GameBoardArray;
+    nextMoveNumber: number;
+    // Whether the local state disagreed with the chain.
+    diverged: boolean;
+    // Moves that were sent or queued after the chain state, now abandoned.
+    // Earlier moves still in flight stay tracked.
+    discardedMoves: number[];
+};
+
+export type BoardSync = ReturnType<typeof createBoardSync>;
+
+type GameMoves = {
+    // Sent or queued move numbers and, once broadcast, their hashes.
+    pending: Map<number, Hex | null>;
+    // Bumped on every resync so moves built on the old state can tell.
+    epoch: number;
+    last?: ResyncResult;
+};
+
+// Reconciles local games with `getBoard` after a move fails, and abandons the
+// moves that were built on top of the failed one.
+export function createBoardSync({
+    readBoard,
+    cancelMove,
+}: {
+    // Should read at `pending`, so moves waiting to be mined count.
+    readBoard: (gameId: Hex) => Promise<readonly [GameBoardArray, bigint]>;
+    // Replaces a broadcast move so it cannot land after the resync.
+    cancelMove: (hash: Hex) => Promise<unknown>;
+}) {
+    const games = new Map<Hex, GameMoves>();
+    const listeners = new Set<(result: ResyncResult) => void>();
+
+    function getGame(gameId: Hex): GameMoves {
+        let game = games.get(gameId);
+        if (!game) {
+            game = { pending: new Map(), epoch: 0 };
+            games.set(gameId, game);
+        }
+        return game;
+    }
+
+    function trackMove(gameId: Hex, moveNumber: number, hash: Hex | null = null) {
+        getGame(gameId).pending.set(moveNumber, hash);
+    }
+
+    function settleMove(gameId: Hex, moveNumber: number) {
+        getGame(gameId).pending.delete(moveNumber);
+    }
+
+    // Reads the chain state and drops every local move it doesn't contain.
+    // After a failed move, the moves sent before it are kept in flight.
+    async function resync(
+        gameId: Hex,
+        local?: LocalGameState,
+        failedMoveNumber = 0
+    ): Promise<ResyncResult> {
+        const game = getGame(gameId);
+        game.epoch += 1;
+
+        const [cells, chainNextMoveNumber] = await readBoard(gameId);
+        const board = packBoard(cells);
+        const nextMoveNumber = Number(chainNextMoveNumber);
+
+        const discardedMoves: number[] = [];
+        for (const [moveNumber, hash] of game.pending) {
+            // Already in the chain state
+            if (moveNumber < nextMoveNumber) {
+                game.pending.delete(moveNumber);
+                continue;
+            }
+            // Sent before the failed move, and may still land
+            if (moveNumber < failedMoveNumber) {
+                continue;
+            }
+            discardedMoves.push(moveNumber);
+            game.pending.delete(moveNumber);
+            if (hash) {
+                cancelMove(hash).catch((error) => {
+                    console.warn(`Failed to cancel move ${moveNumber}:`, error);
+                });
+            }
+        }
+        discardedMoves.sort((a, b) => a - b);
+
+        const result: ResyncResult = {
+            gameId,
+            board,
+            cells,
+            nextMoveNumber,
+            diverged:
+                !!local &&
+                (local.board !== board ||
+                    local.nextMoveNumber !== nextMoveNumber),
+            discardedMoves,
+        };
+
+        console.log(`Resynced game ${gameId} to move ${nextMoveNumber}`);
+        game.last = result;
+        listeners.forEach((listener) => listener(result));
+        return result;
+    }
+
+    // Subscribes to resync results. Returns an unsubscribe function.
+    function subscribe(listener: (result: ResyncResult) => void) {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    return {
+        trackMove,
+        settleMove,
+        resync,
+        subscribe,
+        epoch: (gameId: Hex) => getGame(gameId).epoch,
+        lastResync: (gameId: Hex) => games.get(gameId)?.last,
+    };
+}
@@ -0,0 +1,25 @@
+// Shared by the `*.check.ts` scripts: records failed checks and reports them
+// once the script is done.
+let failures = 0;
+
+export function check(name: string, condition: boolean, details = "") {
+    if (!condition) {
+        failures += 1;
+        console.error(`✗ ${name}${details ? `: ${details}` : ""}`);
+    }
+}
+
+// Compares values that may hold bigints.
+export function same(a: unknown, b: unknown) {
+    const replacer = (_: string, value: unknown) =>
+        typeof value === "bigint" ? `${value}n` : value;
+    return JSON.stringify(a, replacer) === JSON.stringify(b, replacer);
+}
+
+// Throws if any check failed, and logs `passed` otherwise.
+export function report(what: string, passed: string) {
+    if (failures) {
+        throw Error(`${failures} ${what} check(s) failed.`);
+    }
+    console.log(`✓ ${passed}`);
+}
@@ -0,0 +1,315 @@
+import {
+    Hex,
+    PublicClient,
+    TransactionReceipt,
+    TransactionReceiptNotFoundError,
+} from "viem";
+
+export type ConfirmationStatus =
+    "pending" | "confirmed" | "replaced" | "timeout";
+
+export type Confirmation = {
+    hash: Hex;
+    receipt: TransactionReceipt;
+};
+
+export class ConfirmationTimeoutError extends Error {
+    constructor(
+        public readonly hashes: Hex[],
+        public readonly timeoutMs: number
+    ) {
+        super(
+            `Transaction ${hashes[0]} was not confirmed within ${timeoutMs} ms.`
+        );
+        this.name = "ConfirmationTimeoutError";
+    }
+}
+
+type Watcher = {
+    // Read on every check, so replacements added later are followed too.
+    hashes: () => Hex[];
+    resolve: (confirmation: Confirmation) => void;
+    timer: ReturnType<typeof setTimeout> | null;
+};
+
+export type ConfirmationTracker = ReturnType<typeof createConfirmationTracker>;
+
+// Outcomes kept for `getStatus` once a transaction is no longer watched.
+const MAX_SETTLED_STATUSES = 100;
+
+// Resolves transaction receipts as soon as the node pushes a new head or one
+// of our contract's logs over WebSocket, and polls while the socket is down.
+// While it is up, a slow poll covers pushes the node drops.
+export function createConfirmationTracker({
+    client,
+    webSocketUrl,
+    contractAddress,
+    pollingIntervalMs = 1_000,
+    fallbackPollingIntervalMs = 10_000,
+    timeoutMs = 30_000,
+}: {
+    // Fetches receipts.
+    client: Pick<PublicClient, "getTransactionReceipt">;
+    // Without one, the tracker only polls.
+    webSocketUrl?: string;
+    // Logs of this contract trigger an immediate receipt lookup.
+    contractAddress?: Hex;
+    pollingIntervalMs?: number;
+    // Polling interval while the socket is open.
+    fallbackPollingIntervalMs?: number;
+    // Default for `wait`; 0 waits forever.
+    timeoutMs?: number;
+}) {
+    const watchers = new Set<Watcher>();
+    // Watched hashes only; settled ones move to `settled`.
+    const statuses = new Map<Hex, ConfirmationStatus>();
+    const settled = new Map<Hex, ConfirmationStatus>();
+    let socket: WebSocket | null = null;
+    let socketOpen = false;
+    let reconnectDelayMs = 1_000;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let pollTimerIntervalMs = 0;
+    let stopped = true;
+    let checking = false;
+
+    async function getReceipt(hash: Hex) {
+        try {
+            return await client.getTransactionReceipt({ hash });
+        } catch (error) {
+            if (error instanceof TransactionReceiptNotFoundError) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    // Stops watching `hashes` and keeps the outcome of each, dropping the
+    // oldest outcomes beyond the limit.
+    function unwatch(hashes: Hex[], status: (hash: Hex) => ConfirmationStatus) {
+        for (const hash of hashes) {
+            statuses.delete(hash);
+            settled.delete(hash);
+            settled.set(hash, status(hash));
+        }
+        for (const hash of settled.keys()) {
+            if (settled.size <= MAX_SETTLED_STATUSES) {
+                break;
+            }
+            settled.delete(hash);
+        }
+    }
+
+    function settle(watcher: Watcher, confirmation: Confirmation) {
+        if (watcher.timer) {
+            clearTimeout(watcher.timer);
+        }
+        watchers.delete(watcher);
+        // The others were replaced by the one that landed.
+        unwatch(watcher.hashes(), (hash) =>
+            hash === confirmation.hash ? "confirmed" : "replaced"
+        );
+        watcher.resolve(confirmation);
+        updatePolling();
+    }
+
+    async function check(watcher: Watcher) {
+        for (const hash of watcher.hashes()) {
+            const receipt = await getReceipt(hash);
+            if (receipt && watchers.has(watcher)) {
+                settle(watcher, { hash, receipt });
+                return;
+            }
+        }
+    }
+
+    // Looks up receipts for every watched transaction.
+    async function checkAll() {
+        if (checking) {
+            return;
+        }
+        checking = true;
+        try {
+            await Promise.all(
+                [...watchers].map((watcher) =>
+                    check(watcher).catch((error) => {
+                        console.warn("Failed to fetch receipt:", error);
+                    })
+                )
+            );
+        } finally {
+            checking = false;
+        }
+    }
+
+    // A log carries its transaction hash, so that watcher resolves directly.
+    function checkHash(hash: Hex) {
+        for (const watcher of watchers) {
+            if (watcher.hashes().includes(hash)) {
+                check(watcher).catch((error) => {
+                    console.warn("Failed to fetch receipt:", error);
+                });
+            }
+        }
+    }
+
+    // Polls only while something is watched, slowly while the socket can
+    // push.
+    function updatePolling() {
+        const intervalMs =
+            stopped || watchers.size === 0
+                ? 0
+                : socketOpen
+                  ? fallbackPollingIntervalMs
+                  : pollingIntervalMs;
+        if (intervalMs === pollTimerIntervalMs) {
+            return;
+        }
+        if (pollTimer) {
+            clearInterval(pollTimer);
+            pollTimer = null;
+        }
+        pollTimerIntervalMs = intervalMs;
+        if (intervalMs > 0) {
+            pollTimer = setInterval(checkAll, intervalMs);
+        }
+    }
+
+    function connect() {
+        if (!webSocketUrl || stopped) {
+            return;
+        }
+
+        const ws = new WebSocket(webSocketUrl);
+        socket = ws;
+
+        ws.onopen = () => {
+            socketOpen = true;
+            reconnectDelayMs = 1_000;
+            updatePolling();
+            ws.send(
+                JSON.stringify({
+                    id: 1,
+                    jsonrpc: "2.0",
+                    method: "eth_subscribe",
+                    params: ["newHeads"],
+                })
+            );
+            if (contractAddress) {
+                ws.send(
+                    JSON.stringify({
+                        id: 2,
+                        jsonrpc: "2.0",
+                        method: "eth_subscribe",
+                        params: ["logs", { address: contractAddress }],
+                    })
+                );
+            }
+            // Catch up on anything mined while disconnected.
+            checkAll();
+        };
+
+        ws.onmessage = (event) => {
+            const message = JSON.parse(event.data);
+            if (message.method !== "eth_subscription") {
+                return;
+            }
+            const result = message.params?.result;
+            if (result?.transactionHash) {
+                checkHash(result.transactionHash);
+            } else {
+                checkAll();
+            }
+        };
+
+        ws.onclose = () => {
+            // Replaced by `stop` or `reconfigure`.
+            if (socket !== ws) {
+                return;
+            }
+            socketOpen = false;
+            socket = null;
+            updatePolling();
+            if (!stopped) {
+                console.warn(
+                    `Confirmation socket closed, polling and reconnecting in ${reconnectDelayMs} ms`
+                );
+                reconnectTimer = setTimeout(connect, reconnectDelayMs);
+                reconnectDelayMs = Math.min(reconnectDelayMs * 2, 30_000);
+            }
+        };
+
+        ws.onerror = () => ws.close();
+    }
+
+    function start() {
+        if (!stopped) {
+            return;
+        }
+        stopped = false;
+        connect();
+        updatePolling();
+    }
+
+    function stop() {
+        stopped = true;
+        if (reconnectTimer) {
+            clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+        }
+        socket?.close();
+        socket = null;
+        socketOpen = false;
+        updatePolling();
+    }
+
+    // Follows another node or contract, e.g. after a network switch.
+    function reconfigure(next: { webSocketUrl?: string; contractAddress?: Hex }) {
+        const running = !stopped;
+        stop();
+        webSocketUrl = next.webSocketUrl;
+        contractAddress = next.contractAddress;
+        if (running) {
+            start();
+        }
+    }
+
+    // Resolves with the first of `hashes` to be mined. Rejects with a
+    // `ConfirmationTimeoutError` if none is mined within the timeout.
+    function wait(
+        hashes: () => Hex[],
+        options: { timeoutMs?: number } = {}
+    ): Promise<Confirmation> {
+        const timeout = options.timeoutMs ?? timeoutMs;
+
+        return new Promise<Confirmation>((resolve, reject) => {
+            const watcher: Watcher = { hashes, resolve, timer: null };
+            if (timeout > 0) {
+                watcher.timer = setTimeout(() => {
+                    watchers.delete(watcher);
+                    unwatch(hashes(), () => "timeout");
+                    updatePolling();
+                    reject(new ConfirmationTimeoutError(hashes(), timeout));
+                }, timeout);
+            }
+
+            watchers.add(watcher);
+            for (const hash of hashes()) {
+                statuses.set(hash, "pending");
+            }
+            updatePolling();
+            check(watcher).catch((error) => {
+                console.warn("Failed to fetch receipt:", error);
+            });
+        });
+    }
+
+    return {
+        start,
+        stop,
+        reconfigure,
+        wait,
+        getStatus: (hash: Hex) => statuses.get(hash) ?? settled.get(hash),
+        isPushing: () => socketOpen,
+    };
+}
@@ -0,0 +1,172 @@
+import {
+    applyMove,
+    BoardCells,
+    Direction,
+    DIRECTIONS,
+    emptyCells,
+} from "./boardEngine";
+
+// How much each feature of a board counts. Features are in tile exponents,
+// so weights stay comparable across the game.
+export type HeuristicWeights = {
+    // Per empty cell.
+    empty: number;
+    // Penalty for rows and columns that aren't sorted in either direction.
+    monotonicity: number;
+    // Penalty for exponent gaps between neighbouring tiles.
+    smoothness: number;
+    // Bonus when the largest tile sits in a corner.
+    maxInCorner: number;
+};
+
+export const DEFAULT_HEURISTICS: HeuristicWeights = {
+    empty: 2.7,
+    monotonicity: 1,
+    smoothness: 0.1,
+    maxInCorner: 1,
+};
+
+const SIZE = 4;
+const CORNERS = [0, SIZE - 1, SIZE * (SIZE - 1), SIZE * SIZE - 1];
+
+// Spawned tiles and their odds: a 2 nine times out of ten, otherwise a 4.
+const SPAWNS: [exponent: number, probability: number][] = [
+    [1, 0.9],
+    [2, 0.1],
+];
+
+function lines(cells: BoardCells): number[][] {
+    const rows: number[][] = [];
+    const columns: number[][] = [];
+    for (let i = 0; i < SIZE; i++) {
+        rows.push(cells.slice(i * SIZE, (i + 1) * SIZE));
+        columns.push([0, 1, 2, 3].map((j) => cells[j * SIZE + i]));
+    }
+    return [...rows, ...columns];
+}
+
+export function evaluateBoard(
+    cells: BoardCells,
+    weights: HeuristicWeights = DEFAULT_HEURISTICS
+): number {
+    let monotonicity = 0;
+    let smoothness = 0;
+    for (const line of lines(cells)) {
+        let increasing = 0;
+        let decreasing = 0;
+        for (let i = 1; i < SIZE; i++) {
+            const step = line[i] - line[i - 1];
+            if (step > 0) {
+                increasing += step;
+            } else {
+                decreasing -= step;
+            }
+            if (line[i] && line[i - 1]) {
+                smoothness += Math.abs(step);
+            }
+        }
+        monotonicity += Math.min(increasing, decreasing);
+    }
+
+    const max = Math.max(...cells);
+    const maxInCorner = CORNERS.some((i) => cells[i] === max) ? max : 0;
+
+    return (
+        weights.empty * emptyCells(cells).length -
+        weights.monotonicity * monotonicity -
+        weights.smoothness * smoothness +
+        weights.maxInCorner * maxInCorner
+    );
+}
+
+export type ExpectimaxSolver = ReturnType<typeof createExpectimaxSolver>;
+
+// Picks moves by expectimax: the player takes the best move, the game
+// spawns a tile at random. `depth` counts player moves looked ahead; chance
+// branches less likely than `minProbability` are cut off.
+export function createExpectimaxSolver({
+    depth = 2,
+    heuristics = DEFAULT_HEURISTICS,
+    minProbability = 0.0001,
+}: {
+    depth?: number;
+    heuristics?: HeuristicWeights;
+    minProbability?: number;
+} = {}) {
+    // Value of the best move from `cells`.
+    function maximize(
+        cells: BoardCells,
+        remaining: number,
+        probability: number,
+        seen: Map<string, number>
+    ): number {
+        let best = -Infinity;
+        for (const direction of DIRECTIONS) {
+            const moved = applyMove(cells, direction);
+            if (moved.changed) {
+                best = Math.max(
+                    best,
+                    expect(moved.cells, remaining - 1, probability, seen)
+                );
+            }
+        }
+        // No move left: the game is over.
+        return best === -Infinity
+            ? evaluateBoard(cells, heuristics) - 1e6
+            : best;
+    }
+
+    // Average value over every tile the game may spawn on `cells`.
+    function expect(
+        cells: BoardCells,
+        remaining: number,
+        probability: number,
+        seen: Map<string, number>
+    ): number {
+        const empty = emptyCells(cells);
+        if (remaining <= 0 || probability < minProbability || !empty.length) {
+            return evaluateBoard(cells, heuristics);
+        }
+
+        const key = `${remaining}:${cells.join(",")}`;
+        const known = seen.get(key);
+        if (known !== undefined) {
+            return known;
+        }
+
+        let total = 0;
+        for (const position of empty) {
+            for (const [exponent, odds] of SPAWNS) {
+                const spawned = [...cells];
+                spawned[position] = exponent;
+                const branch = (odds / empty.length) * probability;
+                total +=
+                    (odds / empty.length) *
+                    maximize(spawned, remaining, branch, seen);
+            }
+        }
+        seen.set(key, total);
+        return total;
+    }
+
+    // Best move for `cells`, or null if no move changes the board.
+    function chooseMove(cells: BoardCells): Direction | null {
+        const seen = new Map<string, number>();
+        let best: Direction | null = null;
+        let bestValue = -Infinity;
+        for (const direction of DIRECTIONS) {
+            const moved = applyMove(cells, direction);
+            if (!moved.changed) {
+                continue;
+            }
+            const value = expect(moved.cells, depth - 1, 1, seen);
+            if (value > bestValue) {
+                best = direction;
+                bestValue = value;
+            }
+        }
+        return best;
+    }
+
+    return { chooseMove };
+}
@@ -0,0 +1,175 @@
+import { parseGwei, PublicClient } from "viem";
+
+export type Fees = {
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+};
+
+// Upper bounds applied after a strategy has priced a transaction.
+export type FeeCaps = {
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+};
+
+export type FeeSpeed = "slow" | "normal" | "fast";
+
+export type FeeClient = Pick<PublicClient, "getBlock" | "getFeeHistory">;
+
+export type FeeStrategy = {
+    name: string;
+    getFees: (client: FeeClient) => Promise<Fees>;
+};
+
+// Per-call fee configuration, e.g. a cheaper strategy for moves than for
+// starting a game.
+export type FeeOptions = {
+    strategy?: FeeStrategy;
+    caps?: FeeCaps;
+};
+
+// Used when a strategy cannot reach the network.
+export const FALLBACK_FEES: Fees = {
+    maxFeePerGas: parseGwei("2"),
+    maxPriorityFeePerGas: parseGwei("1"),
+};
+
+// Always returns the same fees.
+export function fixedFeeStrategy(fees: Fees): FeeStrategy {
+    return {
+        name: "fixed",
+        getFees: async () => fees,
+    };
+}
+
+// Prices off the latest block: `baseFee * multiplier + priorityFee`.
+export function baseFeeMultiplierStrategy({
+    multiplier = 2n,
+    maxPriorityFeePerGas = parseGwei("1"),
+}: {
+    multiplier?: bigint;
+    maxPriorityFeePerGas?: bigint;
+} = {}): FeeStrategy {
+    return {
+        name: `baseFee x${multiplier}`,
+        getFees: async (client) => {
+            const latestBlock = await client.getBlock();
+            const baseFeePerGas = latestBlock.baseFeePerGas ?? parseGwei("1");
+
+            return {
+                maxFeePerGas: baseFeePerGas * multiplier + maxPriorityFeePerGas,
+                maxPriorityFeePerGas,
+            };
+        },
+    };
+}
+
+const FEE_HISTORY_PERCENTILES: Record<FeeSpeed, number> = {
+    slow: 10,
+    normal: 50,
+    fast: 90,
+};
+
+// Prices the tip at a percentile of recent tips paid, and the cap at the next
+// block's base fee times `baseFeeMultiplier` plus that tip.
+export function feeHistoryStrategy({
+    speed = "normal",
+    blockCount = 10,
+    baseFeeMultiplier = 2n,
+    minPriorityFeePerGas = 0n,
+}: {
+    speed?: FeeSpeed;
+    blockCount?: number;
+    baseFeeMultiplier?: bigint;
+    minPriorityFeePerGas?: bigint;
+} = {}): FeeStrategy {
+    return {
+        name: `feeHistory ${speed}`,
+        getFees: async (client) => {
+            const history = await client.getFeeHistory({
+                blockCount,
+                blockTag: "latest",
+                rewardPercentiles: [FEE_HISTORY_PERCENTILES[speed]],
+            });
+
+            // The last entry is the base fee of the next block.
+            const nextBaseFeePerGas =
+                history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0n;
+
+            // Median of the per-block percentile, ignoring empty blocks.
+            const rewards = (history.reward ?? [])
+                .map(([reward]) => reward)
+                .filter((reward) => reward !== undefined && reward > 0n)
+                .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+            const tip = rewards.length
+                ? rewards[Math.floor(rewards.length / 2)]
+                : minPriorityFeePerGas;
+            const maxPriorityFeePerGas =
+                tip > minPriorityFeePerGas ? tip : minPriorityFeePerGas;
+
+            return {
+                maxFeePerGas:
+                    nextBaseFeePerGas * baseFeeMultiplier + maxPriorityFeePerGas,
+                maxPriorityFeePerGas,
+            };
+        },
+    };
+}
+
+// Applies caps and guarantees `maxFeePerGas >= maxPriorityFeePerGas`, which
+// nodes otherwise reject ("tip cannot be higher than the fee cap").
+export function resolveFees(fees: Fees, caps: FeeCaps = {}): Fees {
+    let { maxFeePerGas, maxPriorityFeePerGas } = fees;
+
+    if (
+        caps.maxPriorityFeePerGas !== undefined &&
+        maxPriorityFeePerGas > caps.maxPriorityFeePerGas
+    ) {
+        maxPriorityFeePerGas = caps.maxPriorityFeePerGas;
+    }
+    if (caps.maxFeePerGas !== undefined && maxFeePerGas > caps.maxFeePerGas) {
+        maxFeePerGas = caps.maxFeePerGas;
+    }
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+        maxPriorityFeePerGas = maxFeePerGas;
+    }
+
+    return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+// Prices a transaction with `strategy`, falling back to `FALLBACK_FEES` when
+// the network can't be reached.
+export async function estimateFees(
+    client: FeeClient,
+    strategy: FeeStrategy,
+    caps?: FeeCaps
+): Promise<Fees> {
+    let fees: Fees;
+    try {
+        fees = await strategy.getFees(client);
+    } catch (error) {
+        console.warn(
+            `Fee strategy "${strategy.name}" failed, using defaults:`,
+            error
+        );
+        fees = FALLBACK_FEES;
+    }
+
+    const resolved = resolveFees(fees, caps);
+    console.log(`Fees (${strategy.name}):`, {
+        maxFeePerGas: resolved.maxFeePerGas.toString(),
+        maxPriorityFeePerGas: resolved.maxPriorityFeePerGas.toString(),
+    });
+    return resolved;
+}
+
+export type FunctionFeeStrategies = {
+    startGame: FeeStrategy;
+    play: FeeStrategy;
+};
+
+// Starting a game is rare and must not stall; moves favour low latency at the
+// normal price.
+export const DEFAULT_FEE_STRATEGIES: FunctionFeeStrategies = {
+    startGame: feeHistoryStrategy({ speed: "fast" }),
+    play: feeHistoryStrategy({ speed: "normal" }),
+};
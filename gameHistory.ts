@@ -0,0 +1,315 @@
+import { Hex, isHex, PublicClient } from "viem";
+import {
+    boardScore,
+    Direction,
+    unpackBoard,
+    validateTransition,
+} from "./boardEngine";
+import { readLogsInChunks } from "./gameIndex";
+import {
+    decodeMega2048Call,
+    GameBoardArray,
+    MEGA2048_ABI,
+} from "./mega2048Contract";
+
+// One board of a game: the opening board (move 0) or the result of a move.
+export type GameHistoryMove = {
+    moveNumber: number;
+    // Undefined for the opening board.
+    direction?: Direction;
+    board: bigint;
+    cells: GameBoardArray;
+    // Implied by the board, counting every spawned tile as a 2, as in the
+    // game index.
+    score: number;
+    scoreGained: number;
+    // Block time in ms, when known.
+    timestamp?: number;
+    hash?: Hex;
+    blockNumber?: number;
+    // Why the contract should have rejected this board, or null.
+    invalidReason: string | null;
+};
+
+export type GameHistory = {
+    gameId: Hex;
+    player?: Hex;
+    chainId?: number;
+    contractAddress?: Hex;
+    moves: GameHistoryMove[];
+};
+
+// A move as recorded on chain or in a replay file, before it is checked.
+export type RecordedMove = {
+    direction?: Direction;
+    board: bigint;
+    timestamp?: number;
+    hash?: Hex;
+    blockNumber?: number;
+};
+
+export class ReplayFormatError extends Error {
+    constructor(reason: string) {
+        super(`Invalid replay file: ${reason}`);
+        this.name = "ReplayFormatError";
+    }
+}
+
+// Recomputes scores and checks every transition of a recorded game, so a
+// history never trusts the boards it was given.
+export function buildGameHistory(
+    game: Omit<GameHistory, "moves">,
+    recorded: RecordedMove[]
+): GameHistory {
+    const moves: GameHistoryMove[] = [];
+
+    recorded.forEach((move, moveNumber) => {
+        const cells = unpackBoard(move.board);
+        const previous = moves[moveNumber - 1];
+        const score = boardScore(cells);
+        let invalidReason: string | null = null;
+
+        if (previous) {
+            if (move.direction === undefined) {
+                invalidReason = "Move has no direction.";
+            } else {
+                invalidReason = validateTransition(
+                    previous.board,
+                    move.direction,
+                    move.board
+                );
+            }
+        }
+
+        moves.push({
+            ...move,
+            moveNumber,
+            cells,
+            score,
+            scoreGained: previous ? score - previous.score : 0,
+            invalidReason,
+        });
+    });
+
+    return { ...game, moves };
+}
+
+export type GameHistoryReader = ReturnType<typeof createGameHistoryReader>;
+
+// Collects a game from the chain: the opening boards from the `startGame`
+// calldata, then one board per `NewMove` event.
+export function createGameHistoryReader({
+    client,
+    contractAddress,
+    fromBlock = 0n,
+    chunkSize,
+}: {
+    client: Pick<
+        PublicClient,
+        | "getBlockNumber"
+        | "getContractEvents"
+        | "getTransaction"
+        | "getBlock"
+        | "getChainId"
+    >;
+    contractAddress: Hex;
+    // Block the contract was deployed in; nothing earlier is searched.
+    fromBlock?: bigint;
+    // Blocks per `eth_getLogs` request. Halved while the node refuses it.
+    chunkSize?: bigint;
+}) {
+    // Block timestamps never change, so they are fetched once.
+    const timestamps = new Map<bigint, number>();
+
+    async function getTimestamp(blockNumber: bigint): Promise<number> {
+        let timestamp = timestamps.get(blockNumber);
+        if (timestamp === undefined) {
+            const block = await client.getBlock({ blockNumber });
+            timestamp = Number(block.timestamp) * 1000;
+            timestamps.set(blockNumber, timestamp);
+        }
+        return timestamp;
+    }
+
+    // The game's `NewGame` and `NewMove` logs, in chain order.
+    async function getGameLogs(gameId: Hex) {
+        const getLogs = async (from: bigint, to: bigint) => {
+            const [newGames, newMoves] = await Promise.all([
+                client.getContractEvents({
+                    address: contractAddress,
+                    abi: MEGA2048_ABI,
+                    eventName: "NewGame",
+                    args: { id: gameId },
+                    fromBlock: from,
+                    toBlock: to,
+                }),
+                client.getContractEvents({
+                    address: contractAddress,
+                    abi: MEGA2048_ABI,
+                    eventName: "NewMove",
+                    args: { id: gameId },
+                    fromBlock: from,
+                    toBlock: to,
+                }),
+            ]);
+            return [...newGames, ...newMoves];
+        };
+
+        const logs: Awaited<ReturnType<typeof getLogs>> = [];
+        await readLogsInChunks({
+            fromBlock,
+            toBlock: await client.getBlockNumber({ cacheTime: 0 }),
+            chunkSize,
+            getLogs,
+            onChunk: (chunk) => logs.push(...chunk),
+        });
+        return logs;
+    }
+
+    async function fetch(gameId: Hex): Promise<GameHistory> {
+        const [chainId, logs] = await Promise.all([
+            client.getChainId(),
+            getGameLogs(gameId),
+        ]);
+        const newGame = logs.find((log) => log.eventName === "NewGame");
+        const newMoves = logs.flatMap((log) =>
+            log.eventName === "NewMove" ? [log] : []
+        );
+        if (!newGame) {
+            throw Error(`Game ${gameId} was not found.`);
+        }
+
+        const startTransaction = await client.getTransaction({
+            hash: newGame.transactionHash,
+        });
+        const call = decodeMega2048Call(startTransaction.input);
+        if (call.functionName !== "startGame") {
+            throw Error(`Game ${gameId} was not started by startGame.`);
+        }
+        const [, boards, openingMoves] = call.args;
+
+        const startTimestamp = await getTimestamp(newGame.blockNumber);
+        const opening: RecordedMove[] = boards.map((board, i) => ({
+            direction: i === 0 ? undefined : (openingMoves[i - 1] as Direction),
+            board,
+            timestamp: startTimestamp,
+            hash: newGame.transactionHash,
+            blockNumber: Number(newGame.blockNumber),
+        }));
+
+        const played = await Promise.all(
+            newMoves.map(async (log): Promise<RecordedMove> => ({
+                direction: Number(log.args.move) as Direction,
+                board: log.args.result!,
+                timestamp: await getTimestamp(log.blockNumber),
+                hash: log.transactionHash,
+                blockNumber: Number(log.blockNumber),
+            }))
+        );
+
+        return buildGameHistory(
+            {
+                gameId,
+                player: newGame.args.player,
+                chainId,
+                contractAddress,
+            },
+            [...opening, ...played]
+        );
+    }
+
+    return { fetch };
+}
+
+export type Replay = ReturnType<typeof createReplay>;
+
+// Steps through a game one board at a time.
+export function createReplay(history: GameHistory) {
+    let position = 0;
+
+    const current = () => history.moves[position];
+    const seek = (moveNumber: number) => {
+        position = Math.max(0, Math.min(history.moves.length - 1, moveNumber));
+        return current();
+    };
+
+    return {
+        current,
+        seek,
+        step: () => seek(position + 1),
+        back: () => seek(position - 1),
+        done: () => position >= history.moves.length - 1,
+        // First board the contract should have refused, if any.
+        firstInvalid: () =>
+            history.moves.find((move) => move.invalidReason !== null),
+    };
+}
+
+const REPLAY_FORMAT = "mega2048-replay";
+const REPLAY_VERSION = 1;
+
+// Serializes a game into a portable replay file. Boards are hex strings so
+// the file is plain JSON; scores and validity are recomputed on import.
+export function exportReplay(history: GameHistory): string {
+    return JSON.stringify(
+        {
+            format: REPLAY_FORMAT,
+            version: REPLAY_VERSION,
+            gameId: history.gameId,
+            player: history.player,
+            chainId: history.chainId,
+            contractAddress: history.contractAddress,
+            moves: history.moves.map((move) => ({
+                direction: move.direction,
+                board: `0x${move.board.toString(16)}`,
+                timestamp: move.timestamp,
+                hash: move.hash,
+                blockNumber: move.blockNumber,
+            })),
+        },
+        null,
+        2
+    );
+}
+
+export function importReplay(json: string): GameHistory {
+    let file: any;
+    try {
+        file = JSON.parse(json);
+    } catch {
+        throw new ReplayFormatError("not JSON.");
+    }
+
+    if (file?.format !== REPLAY_FORMAT) {
+        throw new ReplayFormatError("not a Mega2048 replay.");
+    }
+    if (file.version !== REPLAY_VERSION) {
+        throw new ReplayFormatError(`unsupported version ${file.version}.`);
+    }
+    if (!isHex(file.gameId) || !Array.isArray(file.moves) || !file.moves.length) {
+        throw new ReplayFormatError("missing game ID or moves.");
+    }
+
+    const moves: RecordedMove[] = file.moves.map((move: any, i: number) => {
+        if (!isHex(move?.board)) {
+            throw new ReplayFormatError(`move ${i} has no board.`);
+        }
+        return {
+            direction: move.direction,
+            board: BigInt(move.board),
+            timestamp: move.timestamp,
+            hash: move.hash,
+            blockNumber: move.blockNumber,
+        };
+    });
+
+    return buildGameHistory(
+        {
+            gameId: file.gameId,
+            player: file.player,
+            chainId: file.chainId,
+            contractAddress: file.contractAddress,
+        },
+        moves
+    );
+}
@@ -0,0 +1,378 @@
+import { Hex, PublicClient } from "viem";
+import { boardScore, isGameOver, maxTile, unpackBoard } from "./boardEngine";
+import { MEGA2048_ABI } from "./mega2048Contract";
+
+// Latest known state of one game, folded from its events.
+export type IndexedGame = {
+    gameId: Hex;
+    player: Hex;
+    board: bigint;
+    // Moves played so far, the three opening moves included.
+    moveCount: number;
+    // Implied by the board, counting every spawned tile as a 2.
+    score: number;
+    // Value of the largest tile, e.g. 2048.
+    maxTile: number;
+    gameOver: boolean;
+    startBlock: bigint;
+    lastBlock: bigint;
+};
+
+export type PlayerStats = {
+    player: Hex;
+    games: number;
+    moves: number;
+    bestScore: number;
+    highestTile: number;
+};
+
+export type LeaderboardEntry = {
+    rank: number;
+    player: Hex;
+    // The player's best game.
+    gameId: Hex;
+    score: number;
+    maxTile: number;
+};
+
+export type PageOptions = {
+    offset?: number;
+    limit?: number;
+};
+
+export type Page<T> = {
+    items: T[];
+    total: number;
+    // Offset of the next page, or undefined on the last one.
+    nextOffset?: number;
+};
+
+// What the cache holds: every game and the last block folded into them.
+export type GameIndexSnapshot = {
+    contractAddress: Hex;
+    fromBlock: bigint;
+    indexedTo: bigint;
+    games: IndexedGame[];
+};
+
+// Where the index is kept between page loads.
+export type GameIndexCache = {
+    load(): GameIndexSnapshot | null;
+    save(snapshot: GameIndexSnapshot): void;
+};
+
+// Keeps the index in localStorage; bigints are stored as strings.
+export function createLocalStorageIndexCache(key: string): GameIndexCache {
+    return {
+        load: () => {
+            const stored = localStorage.getItem(key);
+            if (!stored) {
+                return null;
+            }
+            try {
+                return JSON.parse(stored, (field, value) =>
+                    [
+                        "fromBlock",
+                        "indexedTo",
+                        "board",
+                        "startBlock",
+                        "lastBlock",
+                    ].includes(field)
+                        ? BigInt(value)
+                        : value
+                );
+            } catch (error) {
+                console.warn("Ignoring unreadable game index cache:", error);
+                return null;
+            }
+        },
+        save: (snapshot) => {
+            try {
+                localStorage.setItem(
+                    key,
+                    JSON.stringify(snapshot, (_, value) =>
+                        typeof value === "bigint" ? value.toString() : value
+                    )
+                );
+            } catch (error) {
+                // Quota exceeded: the index is rebuilt next time.
+                console.warn("Failed to cache game index:", error);
+            }
+        },
+    };
+}
+
+function paginate<T>(
+    items: T[],
+    { offset = 0, limit = 20 }: PageOptions
+): Page<T> {
+    const end = offset + limit;
+    return {
+        items: items.slice(offset, end),
+        total: items.length,
+        nextOffset: end < items.length ? end : undefined,
+    };
+}
+
+// Reads logs from `fromBlock` to `toBlock` in chunks of at most `chunkSize`
+// blocks, handing each chunk's logs to `onChunk` in chain order. Nodes cap
+// the range or the result size of `eth_getLogs`, so a refused chunk is
+// retried at half the size, down to a single block.
+export async function readLogsInChunks<
+    T extends { blockNumber: bigint; logIndex: number },
+>({
+    fromBlock,
+    toBlock,
+    chunkSize = 10_000n,
+    getLogs,
+    onChunk,
+}: {
+    fromBlock: bigint;
+    toBlock: bigint;
+    chunkSize?: bigint;
+    getLogs: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>;
+    // Called once per chunk, `to` being its last block.
+    onChunk: (logs: T[], to: bigint) => void;
+}): Promise<void> {
+    let size = chunkSize;
+    let from = fromBlock;
+
+    while (from <= toBlock) {
+        const to = from + size - 1n < toBlock ? from + size - 1n : toBlock;
+        let logs;
+        try {
+            logs = await getLogs(from, to);
+        } catch (error) {
+            if (size === 1n) {
+                throw error;
+            }
+            size = size / 2n;
+            continue;
+        }
+        onChunk(
+            logs.sort(
+                (a, b) =>
+                    Number(a.blockNumber - b.blockNumber) ||
+                    a.logIndex - b.logIndex
+            ),
+            to
+        );
+        from = to + 1n;
+    }
+}
+
+export type GameIndex = ReturnType<typeof createGameIndex>;
+
+// Indexes `NewGame` and `NewMove` events into per-game and per-player
+// stats. Logs are read in chunks from `fromBlock`, the result is cached, and
+// later syncs only read the blocks added since.
+export function createGameIndex({
+    client,
+    contractAddress,
+    fromBlock = 0n,
+    chunkSize = 10_000n,
+    cache,
+}: {
+    client: Pick<
+        PublicClient,
+        "getBlockNumber" | "getContractEvents" | "watchBlockNumber"
+    >;
+    contractAddress: Hex;
+    // Block the contract was deployed in; nothing earlier is read.
+    fromBlock?: bigint;
+    // Blocks per `eth_getLogs` request. Halved while the node refuses it.
+    chunkSize?: bigint;
+    cache?: GameIndexCache;
+}) {
+    const games = new Map<Hex, IndexedGame>();
+    const listeners = new Set<(indexedTo: bigint) => void>();
+    let indexedTo = fromBlock - 1n;
+    let syncing: Promise<bigint> | null = null;
+
+    const cached = cache?.load();
+    if (
+        cached &&
+        cached.contractAddress.toLowerCase() ===
+            contractAddress.toLowerCase() &&
+        cached.fromBlock === fromBlock
+    ) {
+        cached.games.forEach((game) => games.set(game.gameId, game));
+        indexedTo = cached.indexedTo;
+    }
+
+    function update(
+        gameId: Hex,
+        player: Hex,
+        board: bigint,
+        moveCount: number,
+        blockNumber: bigint
+    ) {
+        const cells = unpackBoard(board);
+        games.set(gameId, {
+            gameId,
+            player,
+            board,
+            moveCount,
+            score: boardScore(cells),
+            maxTile: maxTile(cells),
+            gameOver: isGameOver(cells),
+            startBlock: games.get(gameId)?.startBlock ?? blockNumber,
+            lastBlock: blockNumber,
+        });
+    }
+
+    function getLogs(from: bigint, to: bigint) {
+        return client.getContractEvents({
+            address: contractAddress,
+            abi: MEGA2048_ABI,
+            fromBlock: from,
+            toBlock: to,
+        });
+    }
+
+    // Folds logs, in chain order, into the index.
+    function apply(logs: Awaited<ReturnType<typeof getLogs>>) {
+        for (const log of logs) {
+            if (log.eventName === "NewGame") {
+                const { id, player, board } = log.args;
+                // The opening moves count as moves 1 to 3.
+                update(id!, player!, board!, 3, log.blockNumber);
+            } else if (log.eventName === "NewMove") {
+                const { id, player, result } = log.args;
+                const game = games.get(id!);
+                update(
+                    id!,
+                    player!,
+                    result!,
+                    (game?.moveCount ?? 3) + 1,
+                    log.blockNumber
+                );
+            }
+        }
+    }
+
+    async function run(): Promise<bigint> {
+        const latest = await client.getBlockNumber({ cacheTime: 0 });
+        await readLogsInChunks({
+            fromBlock: indexedTo + 1n,
+            toBlock: latest,
+            chunkSize,
+            getLogs,
+            onChunk: (logs, to) => {
+                apply(logs);
+                indexedTo = to;
+            },
+        });
+
+        cache?.save({
+            contractAddress,
+            fromBlock,
+            indexedTo,
+            games: [...games.values()],
+        });
+        listeners.forEach((listener) => listener(indexedTo));
+        return indexedTo;
+    }
+
+    // Reads the blocks added since the last sync. Concurrent calls share one
+    // run. Resolves with the last indexed block.
+    function sync(): Promise<bigint> {
+        if (!syncing) {
+            syncing = run().finally(() => {
+                syncing = null;
+            });
+        }
+        return syncing;
+    }
+
+    // Syncs on every new block until the returned function is called.
+    function watch() {
+        return client.watchBlockNumber({
+            onBlockNumber: () => {
+                sync().catch((error) => {
+                    console.warn("Failed to update game index:", error);
+                });
+            },
+        });
+    }
+
+    // A player's games, most recently played first.
+    function getPlayerGames(
+        player: Hex,
+        page: PageOptions = {}
+    ): Page<IndexedGame> {
+        const address = player.toLowerCase();
+        return paginate(
+            [...games.values()]
+                .filter((game) => game.player.toLowerCase() === address)
+                .sort((a, b) => Number(b.lastBlock - a.lastBlock)),
+            page
+        );
+    }
+
+    function getPlayerStats(player: Hex): PlayerStats {
+        const { items } = getPlayerGames(player, { limit: Infinity });
+        return {
+            player,
+            games: items.length,
+            moves: items.reduce((total, game) => total + game.moveCount, 0),
+            bestScore: Math.max(0, ...items.map((game) => game.score)),
+            highestTile: Math.max(0, ...items.map((game) => game.maxTile)),
+        };
+    }
+
+    // Players ranked by their best game. Ties go to whoever got there first.
+    function getLeaderboard(
+        page: PageOptions & { by?: "score" | "maxTile" } = {}
+    ): Page<LeaderboardEntry> {
+        const by = page.by ?? "score";
+        const best = new Map<string, IndexedGame>();
+        for (const game of games.values()) {
+            const player = game.player.toLowerCase();
+            const current = best.get(player);
+            if (
+                !current ||
+                game[by] > current[by] ||
+                (game[by] === current[by] && game.lastBlock < current.lastBlock)
+            ) {
+                best.set(player, game);
+            }
+        }
+
+        const ranked = [...best.values()]
+            .sort(
+                (a, b) =>
+                    b[by] - a[by] ||
+                    (by === "score"
+                        ? b.maxTile - a.maxTile
+                        : b.score - a.score) ||
+                    Number(a.lastBlock - b.lastBlock)
+            )
+            .map((game, i): LeaderboardEntry => ({
+                rank: i + 1,
+                player: game.player,
+                gameId: game.gameId,
+                score: game.score,
+                maxTile: game.maxTile,
+            }));
+        return paginate(ranked, page);
+    }
+
+    function subscribe(listener: (indexedTo: bigint) => void) {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    return {
+        sync,
+        watch,
+        getGame: (gameId: Hex) => games.get(gameId),
+        getPlayerGames,
+        getPlayerStats,
+        getLeaderboard,
+        getIndexedBlock: () => indexedTo,
+        subscribe,
+    };
+}
@@ -0,0 +1,163 @@
+import {
+    encodeAbiParameters,
+    Hex,
+    hexToBigInt,
+    isAddress,
+    keccak256,
+    toHex,
+} from "viem";
+import {
+    addTile,
+    applyMove,
+    BoardCells,
+    DIRECTIONS,
+    emptyCells,
+    packBoard,
+    unpackBoard,
+    validateTransition,
+} from "./boardEngine";
+import { GameBoards, GameMoves } from "./mega2048Contract";
+
+// Everything `startGame` takes, plus what the game ID was derived from.
+export type GameSetup = {
+    player: Hex;
+    seed: Hex;
+    gameId: Hex;
+    boards: GameBoards;
+    moves: GameMoves;
+};
+
+export class GameSetupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "GameSetupError";
+    }
+}
+
+const CELL_COUNT = 16;
+
+// One in ten spawned tiles is a 4, as in the original game.
+const FOUR_PROBABILITY = 10;
+
+export function createSeed(): Hex {
+    return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+// Game IDs are unique per player and seed, so two players can't collide and
+// the same seed always rebuilds the same game.
+export function deriveGameId(player: Hex, seed: Hex): Hex {
+    return keccak256(
+        encodeAbiParameters(
+            [{ type: "address" }, { type: "bytes32" }],
+            [player, seed]
+        )
+    );
+}
+
+// Draws numbers in `[0, bound)` from `keccak256(seed, counter)`.
+function createRandom(seed: Hex) {
+    let counter = 0n;
+    return (bound: number): number => {
+        const draw = hexToBigInt(
+            keccak256(
+                encodeAbiParameters(
+                    [{ type: "bytes32" }, { type: "uint256" }],
+                    [seed, counter++]
+                )
+            )
+        );
+        return Number(draw % BigInt(bound));
+    };
+}
+
+// Spawns a 2, or one time in ten a 4, on an empty cell picked by `random`,
+// which draws numbers in `[0, bound)`.
+export function spawnTile(
+    cells: BoardCells,
+    random: (bound: number) => number
+) {
+    const empty = emptyCells(cells);
+    if (empty.length === 0) {
+        throw new GameSetupError("No empty cell to spawn a tile on.");
+    }
+    const exponent = random(FOUR_PROBABILITY) === 0 ? 2 : 1;
+    return addTile(cells, empty[random(empty.length)], exponent);
+}
+
+// Explains why an opening can't be sent to `startGame`, or returns null: the
+// first board must hold exactly two 2s or 4s, and each move must lead to the
+// next board.
+export function validateOpening(
+    boards: GameBoards,
+    moves: GameMoves
+): string | null {
+    const tiles = unpackBoard(boards[0]).filter((cell) => cell !== 0);
+    if (tiles.length !== 2 || tiles.some((cell) => cell !== 1 && cell !== 2)) {
+        return "Opening board must hold exactly two 2 or 4 tiles.";
+    }
+    for (let i = 0; i < moves.length; i++) {
+        const invalidReason = validateTransition(
+            boards[i],
+            moves[i],
+            boards[i + 1]
+        );
+        if (invalidReason) {
+            return `Opening move ${i + 1}: ${invalidReason}`;
+        }
+    }
+    return null;
+}
+
+export function validateGameSetup(setup: GameSetup): string | null {
+    if (!isAddress(setup.player)) {
+        return `Invalid player address: ${setup.player}`;
+    }
+    if (setup.gameId !== deriveGameId(setup.player, setup.seed)) {
+        return "Game ID does not match the player and seed.";
+    }
+    return validateOpening(setup.boards, setup.moves);
+}
+
+// Builds the opening of a new game from `seed`: two tiles, then three moves
+// that each change the board and spawn one tile. The same player and seed
+// always give the same setup.
+export function buildGameSetup({
+    player,
+    seed = createSeed(),
+}: {
+    player: Hex;
+    seed?: Hex;
+}): GameSetup {
+    const random = createRandom(seed);
+
+    let cells: BoardCells = Array(CELL_COUNT).fill(0);
+    cells = spawnTile(spawnTile(cells, random), random);
+    const boards = [packBoard(cells)];
+    const moves: number[] = [];
+
+    while (moves.length < 3) {
+        const candidates = DIRECTIONS.filter(
+            (direction) => applyMove(cells, direction).changed
+        );
+        if (candidates.length === 0) {
+            throw new GameSetupError("Opening board has no valid move.");
+        }
+        const direction = candidates[random(candidates.length)];
+        cells = spawnTile(applyMove(cells, direction).cells, random);
+        moves.push(direction);
+        boards.push(packBoard(cells));
+    }
+
+    const setup: GameSetup = {
+        player,
+        seed,
+        gameId: deriveGameId(player, seed),
+        boards: boards as unknown as GameBoards,
+        moves: moves as unknown as GameMoves,
+    };
+    const invalidReason = validateGameSetup(setup);
+    if (invalidReason) {
+        throw new GameSetupError(invalidReason);
+    }
+    return setup;
+}
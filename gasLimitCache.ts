@@ -0,0 +1,94 @@
+import { Hex, slice } from "viem";
+
+type GasLimitEntry = {
+    // Highest gas used (or estimated) seen for this key.
+    gasUsed: bigint;
+    source: "estimate" | "receipt";
+    updatedAt: number;
+};
+
+export type GasLimitCache = ReturnType<typeof createGasLimitCache>;
+
+// Learns gas limits per contract function so estimation can stay off the hot
+// path. Entries are seeded from `eth_estimateGas` and refined with the
+// `gasUsed` of receipts; the limit handed out is that plus `headroomPercent`.
+export function createGasLimitCache({
+    headroomPercent = 20n,
+    maxAgeMs = 10 * 60_000,
+}: {
+    headroomPercent?: bigint;
+    // Entries older than this are estimated again.
+    maxAgeMs?: number;
+} = {}) {
+    const entries = new Map<string, GasLimitEntry>();
+
+    function withHeadroom(entry: GasLimitEntry): bigint {
+        return (entry.gasUsed * (100n + headroomPercent)) / 100n;
+    }
+
+    // Cached gas limit for `key`, or undefined when it must be estimated.
+    function get(key: string): bigint | undefined {
+        const entry = entries.get(key);
+        if (!entry || Date.now() - entry.updatedAt > maxAgeMs) {
+            return undefined;
+        }
+        return withHeadroom(entry);
+    }
+
+    // Last limit learned for `key`, stale or not. For when estimating fails.
+    function getLast(key: string): bigint | undefined {
+        const entry = entries.get(key);
+        return entry && withHeadroom(entry);
+    }
+
+    function seed(key: string, estimate: bigint) {
+        entries.set(key, {
+            gasUsed: estimate,
+            source: "estimate",
+            updatedAt: Date.now(),
+        });
+    }
+
+    // Learns from a receipt. The first receipt replaces the estimate; later
+    // ones only raise the entry, so a costly move isn't followed by an
+    // out-of-gas one.
+    function observe(key: string, gasUsed: bigint) {
+        const entry = entries.get(key);
+        const gas =
+            entry?.source === "receipt" && entry.gasUsed > gasUsed
+                ? entry.gasUsed
+                : gasUsed;
+        entries.set(key, {
+            gasUsed: gas,
+            source: "receipt",
+            updatedAt: Date.now(),
+        });
+    }
+
+    // Forces the next transaction for `key` to be estimated, e.g. after it
+    // ran out of gas.
+    function invalidate(key: string) {
+        entries.delete(key);
+    }
+
+    return {
+        get,
+        getLast,
+        seed,
+        observe,
+        invalidate,
+        clear: () => entries.clear(),
+    };
+}
+
+// Cache key of a call: its function selector plus an optional bucket for
+// inputs that change the cost, e.g. how many tiles a move merges.
+export function getGasLimitKey(data: Hex, bucket?: string | number): string {
+    const selector = data.length >= 10 ? slice(data, 0, 4) : data;
+    return bucket === undefined ? selector : `${selector}:${bucket}`;
+}
+
+// A transaction that used (almost) its whole limit most likely ran out of gas.
+export function isOutOfGas(gasUsed: bigint, gasLimit: bigint): boolean {
+    return gasUsed * 100n >= gasLimit * 99n;
+}
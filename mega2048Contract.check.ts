@@ -0,0 +1,220 @@
+// Fails if the ABI, the calls the hooks make or any helper in
+// mega2048Contract.ts drifts from the deployed contract. Run with
+// `npx tsx mega2048Contract.check.ts` where `tsx` and `viem` are installed.
+import {
+    concat,
+    encodeAbiParameters,
+    encodeErrorResult,
+    encodeEventTopics,
+    encodeFunctionData,
+    encodeFunctionResult,
+    Hex,
+    keccak256,
+    parseAbiParameters,
+    toEventSelector,
+    toFunctionSelector,
+    toHex,
+} from "viem";
+import { check, report, same } from "./check";
+import {
+    decodeGetBoard,
+    decodeMega2048Call,
+    decodeMega2048Error,
+    decodeMega2048Log,
+    encodeGetBoard,
+    encodePlay,
+    encodeStartGame,
+    GameBoardArray,
+    GameBoards,
+    GameMoves,
+    getBoardCall,
+    MEGA2048_ABI,
+    Mega2048ErrorName,
+    playCall,
+    startGameCall,
+} from "./mega2048Contract";
+import { decodeRevertReason } from "./rpcErrors";
+
+// The deployed contract's interface, written out independently of the ABI.
+const FUNCTIONS = {
+    startGame: "startGame(bytes32,uint128[4],uint8[3])",
+    play: "play(bytes32,uint8,uint128)",
+    getBoard: "getBoard(bytes32)",
+};
+const EVENTS = {
+    NewGame: "NewGame(address,bytes32,uint256)",
+    NewMove: "NewMove(address,bytes32,uint256,uint256)",
+};
+const ERRORS: Mega2048ErrorName[] = [
+    "GameIdUsed",
+    "GamePlayerMismatch",
+    "GameBoardInvalid",
+    "MoveInvalid",
+    "GameOver",
+];
+
+const gameId = keccak256(toHex("mega2048 abi check"));
+const player: Hex = "0x00000000000000000000000000000000000000A1";
+const boards: GameBoards = [1n << 8n, 2n << 16n, 3n << 24n, 4n << 32n];
+const moves: GameMoves = [0, 1, 2];
+
+// Every function in the ABI has the deployed signature, and nothing else is
+// declared.
+const abiFunctions = MEGA2048_ABI.filter((item) => item.type === "function");
+check(
+    "ABI functions",
+    same(
+        abiFunctions.map((item) => item.name).sort(),
+        Object.keys(FUNCTIONS).sort()
+    )
+);
+for (const item of abiFunctions) {
+    check(
+        `${item.name} selector`,
+        toFunctionSelector(item) === toFunctionSelector(FUNCTIONS[item.name])
+    );
+}
+
+// Calldata for `signature` and `args` in the deployed layout, built without
+// the ABI.
+function encodeBySignature(signature: string, args: readonly unknown[]): Hex {
+    const types = signature.slice(signature.indexOf("(") + 1, -1);
+    return concat([
+        toFunctionSelector(signature),
+        encodeAbiParameters(parseAbiParameters(types), args),
+    ]);
+}
+
+// Checks calldata the hooks send for `name`: the deployed layout of `args`,
+// decoded back unchanged.
+function checkCalldata(
+    what: string,
+    name: keyof typeof FUNCTIONS,
+    data: Hex,
+    args: readonly unknown[]
+) {
+    const expected = encodeBySignature(FUNCTIONS[name], args);
+    check(what, data === expected, `${data} != ${expected}`);
+    const decoded = decodeMega2048Call(data);
+    check(
+        `${what} round trip`,
+        decoded.functionName === name && same(decoded.args, args)
+    );
+}
+
+// The calls as the hooks make them, with their arguments in the order the
+// hooks pass them. v1 sends `encodeStartGame` and `encodePlay` and reads
+// `getBoardCall`; v2 spreads `startGameCall` and `playCall` into
+// `writeContract`, which encodes them like `encodeFunctionData`.
+const direction = 3;
+const resultBoard = 5n << 40n;
+checkCalldata(
+    "v1 startGame",
+    "startGame",
+    encodeStartGame(gameId, boards, moves),
+    [gameId, boards, moves]
+);
+checkCalldata(
+    "v2 startGame",
+    "startGame",
+    encodeFunctionData(startGameCall(gameId, boards, moves)),
+    [gameId, boards, moves]
+);
+checkCalldata("v1 play", "play", encodePlay(gameId, direction, resultBoard), [
+    gameId,
+    direction,
+    resultBoard,
+]);
+checkCalldata(
+    "v2 play",
+    "play",
+    encodeFunctionData(playCall(gameId, direction, resultBoard)),
+    [gameId, direction, resultBoard]
+);
+checkCalldata(
+    "v1 getBoard",
+    "getBoard",
+    encodeFunctionData(getBoardCall(gameId)),
+    [gameId]
+);
+checkCalldata("encodeGetBoard", "getBoard", encodeGetBoard(gameId), [gameId]);
+
+// getBoard: the `(uint8[16], uint256)` it returns.
+const cells = Array.from(
+    { length: 16 },
+    (_, i) => i % 12
+) as unknown as GameBoardArray;
+const boardResult = encodeAbiParameters(
+    [{ type: "uint8[16]" }, { type: "uint256" }],
+    [cells, 7n]
+);
+check(
+    "getBoard result",
+    boardResult ===
+        encodeFunctionResult({
+            abi: MEGA2048_ABI,
+            functionName: "getBoard",
+            result: [cells, 7n],
+        })
+);
+check("decodeGetBoard", same(decodeGetBoard(boardResult), [cells, 7n]));
+
+// Events: topics as the contract emits them, decoded back.
+check(
+    "NewGame topic",
+    encodeEventTopics({ abi: MEGA2048_ABI, eventName: "NewGame" })[0] ===
+        toEventSelector(EVENTS.NewGame)
+);
+check(
+    "NewMove topic",
+    encodeEventTopics({ abi: MEGA2048_ABI, eventName: "NewMove" })[0] ===
+        toEventSelector(EVENTS.NewMove)
+);
+const newGame = decodeMega2048Log({
+    topics: [
+        toEventSelector(EVENTS.NewGame),
+        encodeAbiParameters([{ type: "address" }], [player]),
+        gameId,
+    ],
+    data: encodeAbiParameters([{ type: "uint256" }], [boards[3]]),
+});
+check(
+    "NewGame log",
+    newGame.eventName === "NewGame" &&
+        same(newGame.args, { player, id: gameId, board: boards[3] })
+);
+const newMove = decodeMega2048Log({
+    topics: [
+        toEventSelector(EVENTS.NewMove),
+        encodeAbiParameters([{ type: "address" }], [player]),
+        gameId,
+    ],
+    data: encodeAbiParameters(
+        [{ type: "uint256" }, { type: "uint256" }],
+        [2n, 9n]
+    ),
+});
+check(
+    "NewMove log",
+    newMove.eventName === "NewMove" &&
+        same(newMove.args, { player, id: gameId, move: 2n, result: 9n })
+);
+
+// Custom errors: selectors, and revert data decoded to their names.
+check(
+    "ABI errors",
+    same(
+        MEGA2048_ABI.filter((item) => item.type === "error")
+            .map((item) => item.name)
+            .sort(),
+        [...ERRORS].sort()
+    )
+);
+for (const name of ERRORS) {
+    const data = encodeErrorResult({ abi: MEGA2048_ABI, errorName: name });
+    check(`${name} selector`, data === toFunctionSelector(`${name}()`));
+    check(`${name} decode`, decodeMega2048Error(data).errorName === name);
+    check(`${name} revert reason`, decodeRevertReason(data) === name);
+}
+
+report("ABI", "Mega2048 ABI matches the contract");
@@ -0,0 +1,269 @@
+import {
+    decodeErrorResult,
+    decodeEventLog,
+    decodeFunctionData,
+    decodeFunctionResult,
+    encodeFunctionData,
+    Hex,
+    Log,
+} from "viem";
+
+// Single source of truth for the Mega2048 contract interface. Every call site
+// encodes through the typed helpers below; `mega2048Contract.check.ts` checks
+// them against the deployed signatures.
+export const MEGA2048_ABI = [
+    {
+        type: "function",
+        name: "startGame",
+        inputs: [
+            {
+                name: "gameId",
+                type: "bytes32",
+                internalType: "bytes32",
+            },
+            {
+                name: "boards",
+                type: "uint128[4]",
+                internalType: "uint128[4]",
+            },
+            {
+                name: "moves",
+                type: "uint8[3]",
+                internalType: "uint8[3]",
+            },
+        ],
+        outputs: [],
+        stateMutability: "nonpayable",
+    },
+    {
+        type: "function",
+        name: "play",
+        inputs: [
+            {
+                name: "gameId",
+                type: "bytes32",
+                internalType: "bytes32",
+            },
+            {
+                name: "move",
+                type: "uint8",
+                internalType: "uint8",
+            },
+            {
+                name: "resultBoard",
+                type: "uint128",
+                internalType: "uint128",
+            },
+        ],
+        outputs: [],
+        stateMutability: "nonpayable",
+    },
+    {
+        type: "function",
+        name: "getBoard",
+        inputs: [
+            {
+                name: "gameId",
+                type: "bytes32",
+                internalType: "bytes32",
+            },
+        ],
+        outputs: [
+            {
+                name: "boardArr",
+                type: "uint8[16]",
+                internalType: "uint8[16]",
+            },
+            {
+                name: "nextMoveNumber",
+                type: "uint256",
+                internalType: "uint256",
+            },
+        ],
+        stateMutability: "view",
+    },
+    {
+        type: "event",
+        name: "NewGame",
+        inputs: [
+            {
+                name: "player",
+                type: "address",
+                indexed: true,
+                internalType: "address",
+            },
+            {
+                name: "id",
+                type: "bytes32",
+                indexed: true,
+                internalType: "bytes32",
+            },
+            {
+                name: "board",
+                type: "uint256",
+                indexed: false,
+                internalType: "uint256",
+            },
+        ],
+        anonymous: false,
+    },
+    {
+        type: "event",
+        name: "NewMove",
+        inputs: [
+            {
+                name: "player",
+                type: "address",
+                indexed: true,
+                internalType: "address",
+            },
+            {
+                name: "id",
+                type: "bytes32",
+                indexed: true,
+                internalType: "bytes32",
+            },
+            {
+                name: "move",
+                type: "uint256",
+                indexed: false,
+                internalType: "uint256",
+            },
+            {
+                name: "result",
+                type: "uint256",
+                indexed: false,
+                internalType: "uint256",
+            },
+        ],
+        anonymous: false,
+    },
+    {
+        type: "error",
+        name: "GameIdUsed",
+        inputs: [],
+    },
+    {
+        type: "error",
+        name: "GamePlayerMismatch",
+        inputs: [],
+    },
+    {
+        type: "error",
+        name: "GameBoardInvalid",
+        inputs: [],
+    },
+    {
+        type: "error",
+        name: "MoveInvalid",
+        inputs: [],
+    },
+    {
+        type: "error",
+        name: "GameOver",
+        inputs: [],
+    },
+] as const;
+
+export type Mega2048Abi = typeof MEGA2048_ABI;
+
+export type Mega2048ErrorName = Extract<
+    Mega2048Abi[number],
+    { type: "error" }
+>["name"];
+
+// `getBoard` returns one tile exponent per cell, row by row.
+export type GameBoardArray = readonly [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number
+];
+
+export type GameBoards = readonly [bigint, bigint, bigint, bigint];
+export type GameMoves = readonly [number, number, number];
+
+// Contract calls as the hooks make them: `writeContract` and `readContract`
+// take them spread in, and the encoders below turn them into calldata.
+export function startGameCall(
+    gameId: Hex,
+    boards: GameBoards,
+    moves: GameMoves
+) {
+    return {
+        abi: MEGA2048_ABI,
+        functionName: "startGame",
+        args: [gameId, boards, moves],
+    } as const;
+}
+
+export function playCall(gameId: Hex, move: number, resultBoard: bigint) {
+    return {
+        abi: MEGA2048_ABI,
+        functionName: "play",
+        args: [gameId, move, resultBoard],
+    } as const;
+}
+
+export function getBoardCall(gameId: Hex) {
+    return {
+        abi: MEGA2048_ABI,
+        functionName: "getBoard",
+        args: [gameId],
+    } as const;
+}
+
+export function encodeStartGame(
+    gameId: Hex,
+    boards: GameBoards,
+    moves: GameMoves
+): Hex {
+    return encodeFunctionData(startGameCall(gameId, boards, moves));
+}
+
+export function encodePlay(gameId: Hex, move: number, resultBoard: bigint): Hex {
+    return encodeFunctionData(playCall(gameId, move, resultBoard));
+}
+
+export function encodeGetBoard(gameId: Hex): Hex {
+    return encodeFunctionData(getBoardCall(gameId));
+}
+
+export function decodeGetBoard(data: Hex): readonly [GameBoardArray, bigint] {
+    return decodeFunctionResult({
+        abi: MEGA2048_ABI,
+        functionName: "getBoard",
+        data,
+    });
+}
+
+// Decodes the calldata of any Mega2048 transaction.
+export function decodeMega2048Call(data: Hex) {
+    return decodeFunctionData({ abi: MEGA2048_ABI, data });
+}
+
+// Decodes `NewGame` and `NewMove` logs emitted by the contract.
+export function decodeMega2048Log(log: Pick<Log, "data" | "topics">) {
+    return decodeEventLog({
+        abi: MEGA2048_ABI,
+        data: log.data,
+        topics: log.topics,
+    });
+}
+
+// Decodes revert data into one of the contract's custom errors.
+export function decodeMega2048Error(data: Hex) {
+    return decodeErrorResult({ abi: MEGA2048_ABI, data });
+}
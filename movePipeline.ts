@@ -0,0 +1,161 @@
+export type PipelineMove = {
+    moveNumber: number;
+};
+
+export type MovePipelineState = {
+    queued: number;
+    inFlight: number;
+    // Lowest move number that failed; nothing is sent while this is set.
+    failedMoveNumber: number | null;
+};
+
+export class MovePipelineHaltedError extends Error {
+    constructor(
+        public readonly moveNumber: number,
+        public readonly failedMoveNumber: number
+    ) {
+        super(
+            `Move ${moveNumber} was not sent: move ${failedMoveNumber} failed.`
+        );
+        this.name = "MovePipelineHaltedError";
+    }
+}
+
+type QueuedMove<M> = {
+    move: M;
+    resolve: () => void;
+    reject: (error: Error) => void;
+};
+
+// Broadcasts moves one after another, so they get consecutive nonces, while
+// up to `maxInFlight` of them wait for confirmation in the background. The
+// first failure halts the pipeline until `resume` is called.
+export function createMovePipeline<M extends PipelineMove, T>({
+    maxInFlight = 4,
+    broadcast,
+    confirm,
+    onHalt,
+}: {
+    maxInFlight?: number;
+    // Signs and broadcasts a move. Called strictly in queue order.
+    broadcast: (move: M) => Promise<T>;
+    // Resolves once the move is confirmed; rejects if it reverted.
+    confirm: (move: M, sent: T) => Promise<void>;
+    onHalt?: (failedMoveNumber: number, error: Error) => void;
+}) {
+    const queue: QueuedMove<M>[] = [];
+    const listeners = new Set<(state: MovePipelineState) => void>();
+    let inFlight = 0;
+    let failedMoveNumber: number | null = null;
+    let pumping = false;
+
+    function getState(): MovePipelineState {
+        return { queued: queue.length, inFlight, failedMoveNumber };
+    }
+
+    function notify() {
+        const state = getState();
+        listeners.forEach((listener) => listener(state));
+    }
+
+    function halt(moveNumber: number, error: Error) {
+        const first = failedMoveNumber === null;
+        if (first || moveNumber < failedMoveNumber!) {
+            failedMoveNumber = moveNumber;
+        }
+
+        for (const queued of queue.splice(0)) {
+            queued.reject(
+                new MovePipelineHaltedError(
+                    queued.move.moveNumber,
+                    failedMoveNumber!
+                )
+            );
+        }
+
+        if (first) {
+            console.log(`Move pipeline halted at move ${moveNumber}`);
+            onHalt?.(moveNumber, error);
+        }
+        notify();
+    }
+
+    function track(queued: QueuedMove<M>, sent: T) {
+        confirm(queued.move, sent).then(
+            () => {
+                inFlight -= 1;
+                queued.resolve();
+                notify();
+                pump();
+            },
+            (error) => {
+                inFlight -= 1;
+                halt(queued.move.moveNumber, error as Error);
+                queued.reject(error as Error);
+            }
+        );
+    }
+
+    async function pump() {
+        if (pumping) {
+            return;
+        }
+        pumping = true;
+
+        try {
+            while (
+                failedMoveNumber === null &&
+                queue.length > 0 &&
+                inFlight < maxInFlight
+            ) {
+                const queued = queue.shift()!;
+                inFlight += 1;
+                notify();
+
+                let sent: T;
+                try {
+                    sent = await broadcast(queued.move);
+                } catch (error) {
+                    inFlight -= 1;
+                    halt(queued.move.moveNumber, error as Error);
+                    queued.reject(error as Error);
+                    break;
+                }
+
+                track(queued, sent);
+            }
+        } finally {
+            pumping = false;
+        }
+    }
+
+    // Queues a move. Resolves when it is confirmed on chain.
+    function enqueue(move: M): Promise<void> {
+        if (failedMoveNumber !== null) {
+            return Promise.reject(
+                new MovePipelineHaltedError(move.moveNumber, failedMoveNumber)
+            );
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            queue.push({ move, resolve, reject });
+            notify();
+            pump();
+        });
+    }
+
+    // Accepts moves again after the game has been brought back in sync.
+    function resume() {
+        failedMoveNumber = null;
+        notify();
+    }
+
+    function subscribe(listener: (state: MovePipelineState) => void) {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    return { enqueue, resume, getState, subscribe };
+}
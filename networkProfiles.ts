@@ -0,0 +1,95 @@
+import { GAME_CONTRACT_ADDRESS } from "@/utils/constants";
+import { Chain, defineChain, Hex } from "viem";
+import { megaethTestnet } from "viem/chains";
+import { FunctionFeeStrategies } from "./feeStrategy";
+import { RpcEndpoint } from "./rpcPool";
+
+// Everything that differs between the networks the game can run on.
+export type NetworkProfile = {
+    name: string;
+    chain: Chain;
+    rpcEndpoints: RpcEndpoint[];
+    // Same-origin path that proxies the RPC on localhost, to avoid CORS.
+    devProxyPath?: string;
+    // Pushes new heads and logs; receipts are polled without it.
+    webSocketUrl?: string;
+    // Explorer links; `{hash}` and `{address}` are substituted.
+    explorer?: { transaction: string; address: string };
+    contractAddress: Hex;
+    // Block the contract was deployed in; event reads start there, or at
+    // genesis when it is not set.
+    deployBlock?: bigint;
+    // Overrides of the default fee strategy per contract function.
+    feeStrategies?: Partial<FunctionFeeStrategies>;
+    // Warn once the balance covers fewer moves than this.
+    lowBalanceWarningMoves: number;
+};
+
+export const MEGAETH_TESTNET: NetworkProfile = {
+    name: "testnet",
+    chain: megaethTestnet,
+    rpcEndpoints: [{ url: "https://carrot.megaeth.com/rpc", priority: 0 }],
+    devProxyPath: "/megaeth-rpc",
+    webSocketUrl: "wss://carrot.megaeth.com/ws",
+    explorer: {
+        transaction: "https://megaexplorer.xyz/tx/{hash}",
+        address: "https://megaexplorer.xyz/address/{address}",
+    },
+    contractAddress: GAME_CONTRACT_ADDRESS,
+    lowBalanceWarningMoves: 20,
+};
+
+// A node on the developer's machine, e.g. anvil with the contract deployed.
+export function localDevnetProfile({
+    contractAddress,
+    rpcUrl = "http://127.0.0.1:8545",
+    chainId = 31337,
+}: {
+    contractAddress: Hex;
+    rpcUrl?: string;
+    chainId?: number;
+}): NetworkProfile {
+    return {
+        name: "devnet",
+        chain: defineChain({
+            id: chainId,
+            name: "Local Devnet",
+            nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+            rpcUrls: { default: { http: [rpcUrl] } },
+        }),
+        rpcEndpoints: [{ url: rpcUrl, priority: 0 }],
+        contractAddress,
+        lowBalanceWarningMoves: 20,
+    };
+}
+
+// Profiles that can be switched to by name. Mainnet joins once its chain,
+// RPC and contract are live.
+export const NETWORK_PROFILES: Record<string, NetworkProfile> = {
+    testnet: MEGAETH_TESTNET,
+};
+
+export function getNetworkProfile(name: string): NetworkProfile {
+    const profile = NETWORK_PROFILES[name];
+    if (!profile) {
+        throw Error(`Unknown network profile: ${name}`);
+    }
+    return profile;
+}
+
+export function getRpcEndpoints(profile: NetworkProfile): RpcEndpoint[] {
+    if (profile.devProxyPath && window.location.hostname === "localhost") {
+        return [{ url: profile.devProxyPath, priority: 0 }];
+    }
+    return profile.rpcEndpoints;
+}
+
+// Explorer link for a transaction or address, if the network has one.
+export function getExplorerUrl(
+    profile: NetworkProfile,
+    kind: "transaction" | "address",
+    value: string
+): string | undefined {
+    const template = profile.explorer?.[kind];
+    return template?.replace(kind === "transaction" ? "{hash}" : "{address}", value);
+}
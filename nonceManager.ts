@@ -0,0 +1,165 @@
+import { Hex } from "viem";
+
+export type NonceStatus = "reserved" | "sent" | "confirmed" | "failed";
+
+export type NonceEntry = {
+    nonce: number;
+    status: NonceStatus;
+    hash?: Hex;
+};
+
+export type NonceGapReport = {
+    // Nonce of the next transaction to be mined.
+    latest: number;
+    // Nonce after the last transaction the node holds as executable.
+    pending: number;
+    // Nonces in `[pending, next)` that block everything after them.
+    gaps: number[];
+};
+
+export type NonceManager = ReturnType<typeof createNonceManager>;
+
+// Tracks the signer's nonces locally so transactions can be sent without a
+// round trip per move, and repairs the sequence when a send fails.
+export function createNonceManager({
+    getTransactionCount,
+    fillGap,
+}: {
+    getTransactionCount: (blockTag: "latest" | "pending") => Promise<number>;
+    // Occupies `nonce` with a no-op transaction and returns its hash.
+    fillGap: (nonce: number) => Promise<Hex>;
+}) {
+    const entries = new Map<number, NonceEntry>();
+    let next = 0;
+    let recovering: Promise<NonceGapReport> | null = null;
+
+    function setStatus(nonce: number, status: NonceStatus, hash?: Hex) {
+        const entry = entries.get(nonce);
+        entries.set(nonce, {
+            nonce,
+            status,
+            hash: hash ?? entry?.hash,
+        });
+    }
+
+    // Drops bookkeeping for nonces the chain has already mined.
+    function prune(latest: number) {
+        for (const nonce of entries.keys()) {
+            if (nonce < latest) {
+                entries.delete(nonce);
+            }
+        }
+    }
+
+    // Reloads the next nonce from the chain and forgets local state.
+    async function reset(): Promise<number> {
+        const [latest, pending] = await Promise.all([
+            getTransactionCount("latest"),
+            getTransactionCount("pending"),
+        ]);
+        entries.clear();
+        next = Math.max(latest, pending);
+        return next;
+    }
+
+    // Hands out the next nonce. The caller must report what happened to it.
+    function reserve(): number {
+        const nonce = next;
+        next = nonce + 1;
+        setStatus(nonce, "reserved");
+        return nonce;
+    }
+
+    function markSent(nonce: number, hash: Hex) {
+        setStatus(nonce, "sent", hash);
+    }
+
+    // Reverted transactions also land here: they still consume the nonce.
+    function markConfirmed(nonce: number) {
+        setStatus(nonce, "confirmed");
+    }
+
+    // Releases a nonce whose transaction never reached the node. Failed
+    // nonces at the tail are handed out again; interior ones become gaps.
+    function markFailed(nonce: number) {
+        setStatus(nonce, "failed");
+        while (next > 0 && entries.get(next - 1)?.status === "failed") {
+            entries.delete(next - 1);
+            next -= 1;
+        }
+    }
+
+    // Compares local state with the node's latest and pending counts.
+    async function detectGaps(): Promise<NonceGapReport> {
+        const [latest, pending] = await Promise.all([
+            getTransactionCount("latest"),
+            getTransactionCount("pending"),
+        ]);
+
+        prune(latest);
+
+        // Someone else used this account; continue after their transactions.
+        if (pending > next) {
+            next = pending;
+        }
+
+        const gaps: number[] = [];
+        for (let nonce = pending; nonce < next; nonce++) {
+            const entry = entries.get(nonce);
+            // Still being signed or broadcast by another call.
+            if (entry?.status === "reserved") {
+                continue;
+            }
+            // The node holds nothing executable at `pending`, so whatever we
+            // sent there was dropped.
+            if (nonce === pending || !entry || entry.status === "failed") {
+                gaps.push(nonce);
+            }
+        }
+
+        return { latest, pending, gaps };
+    }
+
+    // Detects gaps and fills each one so later transactions can be mined.
+    function recover(): Promise<NonceGapReport> {
+        if (recovering) {
+            return recovering;
+        }
+
+        recovering = (async () => {
+            const report = await detectGaps();
+            for (const nonce of report.gaps) {
+                console.log("Filling nonce gap: ", nonce);
+                const hash = await fillGap(nonce);
+                markSent(nonce, hash);
+            }
+            return report;
+        })().finally(() => {
+            recovering = null;
+        });
+
+        return recovering;
+    }
+
+    function hasFailures(): boolean {
+        for (const entry of entries.values()) {
+            if (entry.status === "failed") {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    return {
+        reset,
+        reserve,
+        markSent,
+        markConfirmed,
+        markFailed,
+        detectGaps,
+        recover,
+        hasFailures,
+        peek: () => next,
+        entries: () => [...entries.values()].sort((a, b) => a.nonce - b.nonce),
+    };
+}
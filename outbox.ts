@@ -0,0 +1,336 @@
+import { Hex, TransactionReceipt } from "viem";
+
+// A signed transaction whose receipt hasn't been seen yet.
+export type OutboxEntry = {
+    chainId: number;
+    // Lowercase signer address.
+    from: Hex;
+    nonce: number;
+    // Every transaction sent on this nonce, original first.
+    hashes: Hex[];
+    // The latest of them, ready to be broadcast again.
+    signedTransaction: Hex;
+    label?: string;
+    gameId?: Hex;
+    moveNumber?: number;
+    createdAt: number;
+};
+
+// Where entries are persisted between sessions.
+export type OutboxStore = {
+    getAll(): Promise<OutboxEntry[]>;
+    put(entry: OutboxEntry): Promise<void>;
+    delete(chainId: number, from: Hex, nonce: number): Promise<void>;
+};
+
+// What reconciliation found out about the moves of one game.
+export type ReconciledGame = {
+    gameId: Hex;
+    // Highest move mined successfully, if any was in the outbox.
+    lastConfirmedMove?: number;
+    // Still waiting to be mined, including rebroadcast ones.
+    pendingMoves: number[];
+    // Reverted, superseded or rejected when rebroadcast.
+    failedMoves: number[];
+};
+
+export type OutboxReconciliation = {
+    confirmed: OutboxEntry[];
+    reverted: OutboxEntry[];
+    // Their nonce was used by a transaction the outbox doesn't know.
+    superseded: OutboxEntry[];
+    // Still held by the node.
+    pending: OutboxEntry[];
+    // Dropped by the node and broadcast again.
+    rebroadcast: OutboxEntry[];
+    // Dropped, and the node refused them again.
+    failed: OutboxEntry[];
+    games: ReconciledGame[];
+};
+
+const STORE_NAME = "transactions";
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function openIndexedDbStore(name: string): Promise<OutboxStore> {
+    const open = indexedDB.open(name, 1);
+    open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE_NAME, {
+            keyPath: ["chainId", "from", "nonce"],
+        });
+    };
+    const db = await promisify(open);
+
+    const objectStore = (mode: IDBTransactionMode) =>
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+    return {
+        getAll: () => promisify(objectStore("readonly").getAll()),
+        put: async (entry) => {
+            await promisify(objectStore("readwrite").put(entry));
+        },
+        delete: async (chainId, from, nonce) => {
+            await promisify(
+                objectStore("readwrite").delete([chainId, from, nonce])
+            );
+        },
+    };
+}
+
+function createLocalStorageStore(name: string): OutboxStore {
+    const read = (): Record<string, OutboxEntry> =>
+        JSON.parse(localStorage.getItem(name) ?? "{}");
+    const write = (entries: Record<string, OutboxEntry>) =>
+        localStorage.setItem(name, JSON.stringify(entries));
+
+    return {
+        getAll: async () => Object.values(read()),
+        put: async (entry) => {
+            write({
+                ...read(),
+                [`${entry.chainId}:${entry.from}:${entry.nonce}`]: entry,
+            });
+        },
+        delete: async (chainId, from, nonce) => {
+            const entries = read();
+            delete entries[`${chainId}:${from}:${nonce}`];
+            write(entries);
+        },
+    };
+}
+
+// Persists to IndexedDB, or to localStorage where IndexedDB can't be opened
+// (e.g. some private browsing modes).
+export async function openOutboxStore(
+    name = "mega2048-outbox"
+): Promise<OutboxStore> {
+    try {
+        return await openIndexedDbStore(name);
+    } catch (error) {
+        console.warn("IndexedDB unavailable, using localStorage:", error);
+        return createLocalStorageStore(name);
+    }
+}
+
+export type Outbox = ReturnType<typeof createOutbox>;
+
+// Keeps signed but unconfirmed transactions across page reloads, so the next
+// session can tell which moves landed and rebroadcast the ones that were
+// dropped instead of reusing their nonces.
+export function createOutbox({
+    getChainId,
+    store,
+    getReceipt,
+    getTransactionCount,
+    isKnown,
+    broadcast,
+}: {
+    // Chain of the active network; entries of other chains are left alone.
+    getChainId: () => number;
+    store: Promise<OutboxStore>;
+    // Resolves null while the transaction isn't mined.
+    getReceipt: (hash: Hex) => Promise<TransactionReceipt | null>;
+    // Mined nonce count of `address`.
+    getTransactionCount: (address: Hex) => Promise<number>;
+    // Whether the node still holds the transaction.
+    isKnown: (hash: Hex) => Promise<boolean>;
+    broadcast: (signedTransaction: Hex) => Promise<Hex>;
+}) {
+    const entries = new Map<string, OutboxEntry>();
+    const listeners = new Set<(result: OutboxReconciliation) => void>();
+
+    const keyOf = (chainId: number, from: Hex, nonce: number) =>
+        `${chainId}:${from.toLowerCase()}:${nonce}`;
+
+    // Entries written before the store opened are kept over stored ones.
+    const loaded = store.then(async (opened) => {
+        for (const entry of await opened.getAll()) {
+            const key = keyOf(entry.chainId, entry.from, entry.nonce);
+            if (!entries.has(key)) {
+                entries.set(key, entry);
+            }
+        }
+        return opened;
+    });
+
+    // Persistence is best effort: a failed write must not fail the send.
+    function persist(write: (opened: OutboxStore) => Promise<void>) {
+        return loaded.then(write).catch((error) => {
+            console.warn("Failed to persist outbox:", error);
+        });
+    }
+
+    // Records a freshly signed transaction. The in-memory entry is updated
+    // at once; the returned promise settles when it is persisted.
+    function add(entry: Omit<OutboxEntry, "chainId" | "createdAt">) {
+        const stored: OutboxEntry = {
+            ...entry,
+            chainId: getChainId(),
+            from: entry.from.toLowerCase() as Hex,
+            createdAt: Date.now(),
+        };
+        entries.set(keyOf(stored.chainId, stored.from, stored.nonce), stored);
+        return persist((opened) => opened.put(stored));
+    }
+
+    // Records a speed-up or cancellation on the nonce of an entry.
+    function replace(
+        from: Hex,
+        nonce: number,
+        hash: Hex,
+        signedTransaction: Hex
+    ) {
+        const key = keyOf(getChainId(), from, nonce);
+        const entry = entries.get(key);
+        if (!entry) {
+            return Promise.resolve();
+        }
+        const stored = {
+            ...entry,
+            hashes: [...entry.hashes, hash],
+            signedTransaction,
+        };
+        entries.set(key, stored);
+        return persist((opened) => opened.put(stored));
+    }
+
+    // Forgets a nonce once a transaction on it was mined or never sent.
+    function settle(from: Hex, nonce: number) {
+        const chainId = getChainId();
+        if (!entries.delete(keyOf(chainId, from, nonce))) {
+            return Promise.resolve();
+        }
+        return persist((opened) =>
+            opened.delete(chainId, from.toLowerCase() as Hex, nonce)
+        );
+    }
+
+    async function list(from?: Hex): Promise<OutboxEntry[]> {
+        await loaded.catch(() => {});
+        const chainId = getChainId();
+        return [...entries.values()]
+            .filter(
+                (entry) =>
+                    entry.chainId === chainId &&
+                    (!from || entry.from === from.toLowerCase())
+            )
+            .sort((a, b) => a.nonce - b.nonce);
+    }
+
+    async function findReceipt(entry: OutboxEntry) {
+        for (const hash of entry.hashes) {
+            const receipt = await getReceipt(hash);
+            if (receipt) {
+                return receipt;
+            }
+        }
+        return null;
+    }
+
+    function summarizeGames(
+        result: Omit<OutboxReconciliation, "games">
+    ): ReconciledGame[] {
+        const games = new Map<Hex, ReconciledGame>();
+        const getGame = (gameId: Hex) => {
+            let game = games.get(gameId);
+            if (!game) {
+                game = { gameId, pendingMoves: [], failedMoves: [] };
+                games.set(gameId, game);
+            }
+            return game;
+        };
+
+        const moves = (list: OutboxEntry[]) =>
+            list.filter(
+                (entry): entry is OutboxEntry & { gameId: Hex; moveNumber: number } =>
+                    entry.gameId !== undefined && entry.moveNumber !== undefined
+            );
+
+        for (const entry of moves(result.confirmed)) {
+            const game = getGame(entry.gameId);
+            game.lastConfirmedMove = Math.max(
+                game.lastConfirmedMove ?? entry.moveNumber,
+                entry.moveNumber
+            );
+        }
+        for (const entry of moves([...result.pending, ...result.rebroadcast])) {
+            getGame(entry.gameId).pendingMoves.push(entry.moveNumber);
+        }
+        for (const entry of moves([
+            ...result.reverted,
+            ...result.superseded,
+            ...result.failed,
+        ])) {
+            getGame(entry.gameId).failedMoves.push(entry.moveNumber);
+        }
+
+        return [...games.values()];
+    }
+
+    // Checks every stored transaction of `from` against the chain. Mined
+    // ones are removed; dropped ones are broadcast again.
+    async function reconcile(from: Hex): Promise<OutboxReconciliation> {
+        const result: Omit<OutboxReconciliation, "games"> = {
+            confirmed: [],
+            reverted: [],
+            superseded: [],
+            pending: [],
+            rebroadcast: [],
+            failed: [],
+        };
+
+        const stored = await list(from);
+        const minedCount = stored.length ? await getTransactionCount(from) : 0;
+
+        for (const entry of stored) {
+            const receipt = await findReceipt(entry);
+            if (receipt) {
+                (receipt.status === "success"
+                    ? result.confirmed
+                    : result.reverted
+                ).push(entry);
+                await settle(from, entry.nonce);
+                continue;
+            }
+
+            if (entry.nonce < minedCount) {
+                result.superseded.push(entry);
+                await settle(from, entry.nonce);
+                continue;
+            }
+
+            const latestHash = entry.hashes[entry.hashes.length - 1];
+            if (await isKnown(latestHash)) {
+                result.pending.push(entry);
+                continue;
+            }
+
+            try {
+                await broadcast(entry.signedTransaction);
+                result.rebroadcast.push(entry);
+            } catch (error) {
+                console.warn(`Failed to rebroadcast ${latestHash}:`, error);
+                result.failed.push(entry);
+                await settle(from, entry.nonce);
+            }
+        }
+
+        const reconciliation = { ...result, games: summarizeGames(result) };
+        listeners.forEach((listener) => listener(reconciliation));
+        return reconciliation;
+    }
+
+    function subscribe(listener: (result: OutboxReconciliation) => void) {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    return { add, replace, settle, list, reconcile, subscribe };
+}
@@ -0,0 +1,87 @@
+import { Hex, PublicClient } from "viem";
+import {
+    decodeMega2048Call,
+    getBoardCall,
+    Mega2048ErrorName,
+} from "./mega2048Contract";
+import {
+    classifyError,
+    ContractRevertError,
+    PreflightRevertError,
+} from "./rpcErrors";
+
+// What each custom error means for the player.
+const ERROR_REASONS: Record<Mega2048ErrorName, string> = {
+    GameIdUsed: "game ID already used",
+    GamePlayerMismatch: "game belongs to another player",
+    GameBoardInvalid: "invalid board",
+    MoveInvalid: "invalid board",
+    GameOver: "game over",
+};
+
+export type PreflightClient = Pick<PublicClient, "call" | "readContract">;
+
+// Runs a `startGame` or `play` call against the pending state and throws a
+// `PreflightRevertError` if it would revert. Failures to simulate are logged
+// and let through: the send itself will tell.
+export async function preflightCall(
+    client: PreflightClient,
+    {
+        from,
+        to,
+        data,
+        moveNumber,
+    }: {
+        from: Hex;
+        to: Hex;
+        data: Hex;
+        // Number of the move `data` plays, to tell a stale move apart.
+        moveNumber?: number;
+    }
+): Promise<void> {
+    let revert: ContractRevertError;
+    try {
+        await client.call({ account: from, to, data, blockTag: "pending" });
+        return;
+    } catch (error) {
+        const classified = classifyError(error);
+        if (!(classified instanceof ContractRevertError)) {
+            console.warn(
+                "Pre-flight simulation failed, sending anyway:",
+                error
+            );
+            return;
+        }
+        revert = classified;
+    }
+
+    let reason =
+        ERROR_REASONS[revert.reason as Mega2048ErrorName] ?? revert.reason;
+
+    // `MoveInvalid` also covers a move sent for a board the game has moved
+    // past, or not reached yet.
+    const call = decodeMega2048Call(data);
+    if (
+        revert.reason === "MoveInvalid" &&
+        call.functionName === "play" &&
+        moveNumber !== undefined
+    ) {
+        const [, nextMoveNumber] = await client
+            .readContract({
+                address: to,
+                ...getBoardCall(call.args[0]),
+                blockTag: "pending",
+            })
+            .catch(() => [undefined, undefined]);
+        if (
+            nextMoveNumber !== undefined &&
+            nextMoveNumber !== BigInt(moveNumber)
+        ) {
+            reason = `wrong move number, the game is at move ${nextMoveNumber}`;
+        }
+    }
+
+    throw new PreflightRevertError(reason, revert.details, {
+        cause: revert.cause,
+    });
+}
@@ -0,0 +1,95 @@
+import { Hex } from "viem";
+import { FeeOptions, feeHistoryStrategy } from "./feeStrategy";
+import { GasLimitCache, getGasLimitKey } from "./gasLimitCache";
+import { NonceManager } from "./nonceManager";
+import { classifyError, TransactionError } from "./rpcErrors";
+
+// The parts of a send request a remediation may change.
+export type RetryableRequest = {
+    data: Hex;
+    gasKey?: string;
+    gas?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    fees?: FeeOptions;
+};
+
+export type RemediationPolicy = ReturnType<typeof createRemediationPolicy>;
+
+// Retries sends whose error can be fixed without the player: the nonce is
+// reloaded, the fees repriced or the gas limit estimated again. Kept out of
+// the hook so it can be driven against the simulated chain.
+export function createRemediationPolicy({
+    nonceManager,
+    getGasLimits,
+    refreshBalance,
+    maxRetries = 1,
+}: {
+    nonceManager: Pick<NonceManager, "reset">;
+    // Read on every remediation, so a rebuilt cache is the one invalidated.
+    getGasLimits: () => Pick<GasLimitCache, "invalidate">;
+    // Reloads the signer's balance into the ledger.
+    refreshBalance: () => Promise<void>;
+    // Retries after applying an error's remediation.
+    maxRetries?: number;
+}) {
+    // Applies the remediation policy of a send error. Returns the request to
+    // retry, or null when the player or the game has to act.
+    async function remediate<R extends RetryableRequest>(
+        e: TransactionError,
+        request: R
+    ): Promise<R | null> {
+        switch (e.remediation) {
+            case "resyncNonceAndRetry":
+                await nonceManager.reset();
+                return request;
+            case "repriceAndRetry":
+                return {
+                    ...request,
+                    maxFeePerGas: undefined,
+                    maxPriorityFeePerGas: undefined,
+                    fees: {
+                        ...request.fees,
+                        strategy: feeHistoryStrategy({ speed: "fast" }),
+                    },
+                };
+            case "reestimateAndRetry":
+                getGasLimits().invalidate(
+                    request.gasKey ?? getGasLimitKey(request.data)
+                );
+                return { ...request, gas: undefined };
+            case "refreshBalance":
+                await refreshBalance();
+                return null;
+            default:
+                // "resyncBoard" is handled by the move that sent it.
+                return null;
+        }
+    }
+
+    // Sends `request` with `sendOnce`, retrying errors whose remediation
+    // could be applied. Rejects with the last error, classified.
+    async function send<R extends RetryableRequest, T>(
+        request: R,
+        sendOnce: (attempt: R) => Promise<T>
+    ): Promise<T> {
+        let attempt = request;
+        for (let retries = 0; ; retries++) {
+            try {
+                return await sendOnce(attempt);
+            } catch (error) {
+                const e = classifyError(error);
+                console.warn(`${e.name}: ${e.details ?? e.message}`);
+
+                const retry =
+                    retries < maxRetries ? await remediate(e, attempt) : null;
+                if (!retry) {
+                    throw e;
+                }
+                attempt = retry;
+            }
+        }
+    }
+
+    return { remediate, send };
+}
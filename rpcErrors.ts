@@ -0,0 +1,344 @@
+import { BaseError, Hex, isHex } from "viem";
+import { InsufficientBalanceError } from "./balanceLedger";
+import { decodeMega2048Error } from "./mega2048Contract";
+import { RpcEndpointsUnavailableError } from "./rpcPool";
+
+// What the sender should do about a failed transaction.
+export type Remediation =
+    // Reload the nonce from chain and send again.
+    | "resyncNonceAndRetry"
+    // Fetch fresh fees (and bump them) and send again.
+    | "repriceAndRetry"
+    // Estimate the gas limit again and send again.
+    | "reestimateAndRetry"
+    // The node already has this exact transaction: treat it as sent.
+    | "treatAsSent"
+    // The contract rejected the call: stop and resync the board.
+    | "resyncBoard"
+    // Refresh the balance; the player has to top up.
+    | "refreshBalance"
+    // Nothing to do automatically.
+    | "none";
+
+export class TransactionError extends Error {
+    constructor(
+        // Shown to the player.
+        message: string,
+        public readonly remediation: Remediation,
+        // Raw node or library message, for logs.
+        public readonly details?: string,
+        options?: { cause?: unknown }
+    ) {
+        super(message, options);
+        this.name = "TransactionError";
+    }
+}
+
+export class NonceTooLowError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            "Transaction order got out of sync with the network.",
+            "resyncNonceAndRetry",
+            details,
+            options
+        );
+        this.name = "NonceTooLowError";
+    }
+}
+
+export class NonceTooHighError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            "An earlier transaction is missing.",
+            "resyncNonceAndRetry",
+            details,
+            options
+        );
+        this.name = "NonceTooHighError";
+    }
+}
+
+export class InsufficientFundsError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            "Not enough ETH to pay for gas. Top up your wallet to keep playing.",
+            "refreshBalance",
+            details,
+            options
+        );
+        this.name = "InsufficientFundsError";
+    }
+}
+
+export class FeeTooLowError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            "Network fees rose above the offered price.",
+            "repriceAndRetry",
+            details,
+            options
+        );
+        this.name = "FeeTooLowError";
+    }
+}
+
+export class TipAboveFeeCapError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            "The priority fee was higher than the fee cap.",
+            "repriceAndRetry",
+            details,
+            options
+        );
+        this.name = "TipAboveFeeCapError";
+    }
+}
+
+export class ReplacementUnderpricedError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            "The replacement fee was too low.",
+            "repriceAndRetry",
+            details,
+            options
+        );
+        this.name = "ReplacementUnderpricedError";
+    }
+}
+
+export class ExceedsBlockGasLimitError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            "The gas limit was higher than a block allows.",
+            "reestimateAndRetry",
+            details,
+            options
+        );
+        this.name = "ExceedsBlockGasLimitError";
+    }
+}
+
+export class AlreadyKnownError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            "The transaction was already submitted.",
+            "treatAsSent",
+            details,
+            options
+        );
+        this.name = "AlreadyKnownError";
+    }
+}
+
+export class ContractRevertError extends TransactionError {
+    constructor(
+        // Custom error name or revert string, when it could be decoded.
+        public readonly reason?: string,
+        details?: string,
+        options?: { cause?: unknown }
+    ) {
+        super(
+            reason
+                ? `The game contract rejected the transaction: ${reason}.`
+                : "The game contract rejected the transaction.",
+            "resyncBoard",
+            details,
+            options
+        );
+        this.name = "ContractRevertError";
+    }
+}
+
+// A simulation showed the transaction would revert, so it was never sent.
+export class PreflightRevertError extends ContractRevertError {
+    constructor(
+        reason?: string,
+        details?: string,
+        options?: { cause?: unknown }
+    ) {
+        super(reason, details, options);
+        this.message = reason
+            ? `The game contract would reject the transaction: ${reason}.`
+            : "The game contract would reject the transaction.";
+        this.name = "PreflightRevertError";
+    }
+}
+
+export class UserRejectedError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            "The request was rejected in the wallet.",
+            "none",
+            details,
+            options
+        );
+        this.name = "UserRejectedError";
+    }
+}
+
+export class NetworkError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            "Couldn't reach the MegaETH network. Check your connection.",
+            "none",
+            details,
+            options
+        );
+        this.name = "NetworkError";
+    }
+}
+
+export class WrongChainError extends TransactionError {
+    constructor(
+        public readonly walletChainId: number,
+        public readonly expectedChainId: number
+    ) {
+        super(
+            `Your wallet is on chain ${walletChainId}, but the game runs on chain ${expectedChainId}. Switch networks to keep playing.`,
+            "none"
+        );
+        this.name = "WrongChainError";
+    }
+}
+
+export class WalletNotReadyError extends TransactionError {
+    constructor(public readonly status: string) {
+        super(
+            status === "disconnected"
+                ? "Log in with your wallet to keep playing."
+                : "Your wallet is still connecting. Try again in a moment.",
+            "none",
+            `Wallet session is ${status}.`
+        );
+        this.name = "WalletNotReadyError";
+    }
+}
+
+// The account or chain changed while the transaction was being prepared, so
+// it was not sent.
+export class WalletSessionChangedError extends TransactionError {
+    constructor() {
+        super("Your wallet changed before the transaction was sent.", "none");
+        this.name = "WalletSessionChangedError";
+    }
+}
+
+export class UnknownTransactionError extends TransactionError {
+    constructor(details?: string, options?: { cause?: unknown }) {
+        super(
+            details || "Something went wrong sending the transaction.",
+            "none",
+            details,
+            options
+        );
+        this.name = "UnknownTransactionError";
+    }
+}
+
+// Node messages vary between clients, so each class matches several forms.
+const MESSAGE_PATTERNS: [
+    RegExp,
+    new (details?: string, options?: { cause?: unknown }) => TransactionError
+][] = [
+    [/nonce too low|nonce has already been used/, NonceTooLowError],
+    [/nonce too high/, NonceTooHighError],
+    [/insufficient funds|insufficient balance/, InsufficientFundsError],
+    [/replacement transaction underpriced/, ReplacementUnderpricedError],
+    [
+        /tip .*cannot be higher than the fee cap|max priority fee per gas higher than max fee per gas|maxpriorityfeepergas.*higher than.*maxfeepergas/,
+        TipAboveFeeCapError,
+    ],
+    [
+        /max fee per gas less than block base fee|fee cap .*less than .*base fee|transaction underpriced|fee too low/,
+        FeeTooLowError,
+    ],
+    [/exceeds block gas limit|gas limit reached/, ExceedsBlockGasLimitError],
+    [/already known|known transaction|already imported/, AlreadyKnownError],
+    [/user rejected|user denied|rejected the request/, UserRejectedError],
+    [/failed to fetch|network ?error|timed? ?out|http request failed/, NetworkError],
+];
+
+// Finds revert data anywhere in a viem or JSON-RPC error chain.
+function findRevertData(error: unknown): Hex | undefined {
+    let current: any = error;
+    while (current) {
+        const data = current.data?.data ?? current.data;
+        if (typeof data === "string" && isHex(data) && data.length >= 10) {
+            return data;
+        }
+        current = current.cause;
+    }
+    return undefined;
+}
+
+// Custom error name, `require` message or panic code of revert data.
+export function decodeRevertReason(data: Hex): string | undefined {
+    try {
+        // viem also decodes the built-in `Error(string)` and `Panic(uint256)`.
+        const { errorName, args } = decodeMega2048Error(data) as {
+            errorName: string;
+            args?: readonly unknown[];
+        };
+        if (errorName === "Error" || errorName === "Panic") {
+            return String(args?.[0]);
+        }
+        return errorName;
+    } catch {
+        // Not an error the contract ABI knows.
+        return undefined;
+    }
+}
+
+function getDetails(error: unknown): string {
+    if (error instanceof BaseError) {
+        return error.details || error.shortMessage;
+    }
+    if (error instanceof Error) {
+        return error.message;
+    }
+    return String(error);
+}
+
+// Maps any error from signing, broadcasting or confirming to a typed
+// `TransactionError` with a remediation policy.
+export function classifyError(error: unknown): TransactionError {
+    if (error instanceof TransactionError) {
+        return error;
+    }
+    if (error instanceof InsufficientBalanceError) {
+        return new InsufficientFundsError(error.message, { cause: error });
+    }
+    if (error instanceof RpcEndpointsUnavailableError) {
+        return new NetworkError(error.message, { cause: error });
+    }
+
+    const details = getDetails(error);
+    const message = [
+        details,
+        error instanceof Error ? error.message : "",
+    ]
+        .join(" ")
+        .toLowerCase();
+
+    const code = (error as any)?.code ?? (error as any)?.cause?.code;
+    if (code === 4001) {
+        return new UserRejectedError(details, { cause: error });
+    }
+
+    const revertData = findRevertData(error);
+    if (revertData || /execution reverted|reverted/.test(message)) {
+        return new ContractRevertError(
+            revertData ? decodeRevertReason(revertData) : undefined,
+            details,
+            { cause: error }
+        );
+    }
+
+    for (const [pattern, ErrorClass] of MESSAGE_PATTERNS) {
+        if (pattern.test(message)) {
+            return new ErrorClass(details, { cause: error });
+        }
+    }
+
+    return new UnknownTransactionError(details, { cause: error });
+}
@@ -0,0 +1,286 @@
+import { RpcRequestError } from "viem";
+
+export type RpcEndpoint = {
+    url: string;
+    // Lower is preferred when several endpoints are healthy.
+    priority: number;
+    // Serves requests in-process instead of over HTTP, e.g. a simulated
+    // chain. Errors carrying a numeric `code` are JSON-RPC errors.
+    request?: (args: { method: string; params?: unknown }) => Promise<unknown>;
+};
+
+export type RpcEndpointHealth = RpcEndpoint & {
+    healthy: boolean;
+    // Round trip of the last successful probe.
+    latencyMs?: number;
+    blockNumber?: bigint;
+    consecutiveFailures: number;
+    lastCheckedAt?: number;
+};
+
+type JsonRpcResponse = {
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+};
+
+export class RpcEndpointsUnavailableError extends Error {
+    constructor(method: string, cause?: unknown) {
+        super(`No RPC endpoint could serve ${method}.`, { cause });
+        this.name = "RpcEndpointsUnavailableError";
+    }
+}
+
+export type RpcPool = ReturnType<typeof createRpcPool>;
+
+// Spreads JSON-RPC traffic over several endpoints. Requests go to the
+// healthiest one and fail over to the next on network errors; periodic probes
+// decide which endpoints are healthy. The pool is an EIP-1193 `request`
+// function, so it can back a viem `custom` transport.
+export function createRpcPool({
+    endpoints,
+    probeIntervalMs = 10_000,
+    timeoutMs = 5_000,
+    maxConsecutiveFailures = 2,
+}: {
+    endpoints: RpcEndpoint[];
+    probeIntervalMs?: number;
+    timeoutMs?: number;
+    // Failures after which an endpoint is skipped until a probe succeeds.
+    maxConsecutiveFailures?: number;
+}) {
+    let health: RpcEndpointHealth[] = [];
+    let requestId = 0;
+    let probeTimer: ReturnType<typeof setInterval> | null = null;
+    const listeners = new Set<(health: RpcEndpointHealth[]) => void>();
+
+    function setEndpoints(nextEndpoints: RpcEndpoint[]) {
+        if (!nextEndpoints.length) {
+            throw Error("At least one RPC endpoint is required.");
+        }
+        health = nextEndpoints.map((endpoint) => ({
+            ...endpoint,
+            healthy: true,
+            consecutiveFailures: 0,
+        }));
+        notify();
+    }
+
+    function notify() {
+        const snapshot = getHealth();
+        listeners.forEach((listener) => listener(snapshot));
+    }
+
+    // Healthy endpoints first, then by priority, then by latency.
+    function ranked(): RpcEndpointHealth[] {
+        return [...health].sort(
+            (a, b) =>
+                Number(b.healthy) - Number(a.healthy) ||
+                a.priority - b.priority ||
+                (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity)
+        );
+    }
+
+    async function post(
+        { url, request }: RpcEndpoint,
+        method: string,
+        params: unknown
+    ): Promise<JsonRpcResponse> {
+        if (request) {
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const timeout = new Promise<never>((_, reject) => {
+                timer = setTimeout(
+                    () => reject(Error(`Request to ${url} timed out`)),
+                    timeoutMs
+                );
+            });
+            try {
+                return {
+                    result: await Promise.race([
+                        request({ method, params }),
+                        timeout,
+                    ]),
+                };
+            } catch (error) {
+                // Providers reject JSON-RPC errors as `{ code, message }`.
+                const { code, message, data } = (error ?? {}) as {
+                    code?: unknown;
+                    message?: unknown;
+                    data?: unknown;
+                };
+                if (typeof code !== "number") {
+                    throw error;
+                }
+                return { error: { code, message: String(message), data } };
+            } finally {
+                clearTimeout(timer);
+            }
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+            const response = await fetch(url, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    id: requestId++,
+                    jsonrpc: "2.0",
+                    method,
+                    params: params ?? [],
+                }),
+                credentials: "omit",
+                signal: controller.signal,
+            });
+            if (!response.ok) {
+                throw Error(`HTTP ${response.status} from ${url}`);
+            }
+            return (await response.json()) as JsonRpcResponse;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    function recordFailure(endpoint: RpcEndpointHealth) {
+        endpoint.consecutiveFailures += 1;
+        if (endpoint.consecutiveFailures >= maxConsecutiveFailures) {
+            endpoint.healthy = false;
+        }
+        notify();
+    }
+
+    function recordSuccess(endpoint: RpcEndpointHealth) {
+        const wasUnhealthy = !endpoint.healthy;
+        endpoint.consecutiveFailures = 0;
+        endpoint.healthy = true;
+        if (wasUnhealthy) {
+            notify();
+        }
+    }
+
+    // Sends a request to the best endpoint, failing over on network errors.
+    // JSON-RPC errors come from a working node and are thrown as-is. Also
+    // returns the URL of the endpoint that answered.
+    async function requestWithEndpoint({
+        method,
+        params,
+    }: {
+        method: string;
+        params?: unknown;
+    }): Promise<{ result: unknown; url: string }> {
+        let lastError: unknown;
+
+        for (const endpoint of ranked()) {
+            let response: JsonRpcResponse;
+            try {
+                response = await post(endpoint, method, params);
+            } catch (error) {
+                console.warn(`RPC ${endpoint.url} failed ${method}:`, error);
+                lastError = error;
+                recordFailure(endpoint);
+                continue;
+            }
+
+            recordSuccess(endpoint);
+            if (response.error) {
+                throw new RpcRequestError({
+                    body: { method, params },
+                    error: response.error,
+                    url: endpoint.url,
+                });
+            }
+            return { result: response.result, url: endpoint.url };
+        }
+
+        throw new RpcEndpointsUnavailableError(method, lastError);
+    }
+
+    async function request(args: {
+        method: string;
+        params?: unknown;
+    }): Promise<any> {
+        return (await requestWithEndpoint(args)).result;
+    }
+
+    // Measures latency and head block of every endpoint.
+    async function probe(): Promise<RpcEndpointHealth[]> {
+        await Promise.all(
+            health.map(async (endpoint) => {
+                const startTime = Date.now();
+                try {
+                    const response = await post(
+                        endpoint,
+                        "eth_blockNumber",
+                        []
+                    );
+                    if (response.error) {
+                        throw Error(response.error.message);
+                    }
+                    endpoint.latencyMs = Date.now() - startTime;
+                    endpoint.blockNumber = BigInt(response.result as string);
+                    recordSuccess(endpoint);
+                } catch (error) {
+                    endpoint.latencyMs = undefined;
+                    recordFailure(endpoint);
+                } finally {
+                    endpoint.lastCheckedAt = Date.now();
+                }
+            })
+        );
+
+        // Endpoints far behind the best head serve stale nonces and receipts.
+        const heads = health
+            .map((endpoint) => endpoint.blockNumber)
+            .filter((head): head is bigint => head !== undefined);
+        const bestHead = heads.reduce((a, b) => (a > b ? a : b), 0n);
+        for (const endpoint of health) {
+            if (
+                endpoint.blockNumber !== undefined &&
+                bestHead - endpoint.blockNumber > 10n
+            ) {
+                endpoint.healthy = false;
+            }
+        }
+
+        notify();
+        return getHealth();
+    }
+
+    function start() {
+        if (probeTimer) {
+            return;
+        }
+        probe();
+        probeTimer = setInterval(probe, probeIntervalMs);
+    }
+
+    function stop() {
+        if (probeTimer) {
+            clearInterval(probeTimer);
+            probeTimer = null;
+        }
+    }
+
+    function getHealth(): RpcEndpointHealth[] {
+        return ranked().map((endpoint) => ({ ...endpoint }));
+    }
+
+    function subscribe(listener: (health: RpcEndpointHealth[]) => void) {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    setEndpoints(endpoints);
+
+    return {
+        request,
+        requestWithEndpoint,
+        probe,
+        start,
+        stop,
+        setEndpoints,
+        getHealth,
+        subscribe,
+    };
+}
@@ -0,0 +1,306 @@
+import { Hex, PublicClient } from "viem";
+import {
+    generatePrivateKey,
+    PrivateKeyAccount,
+    privateKeyToAccount,
+} from "viem/accounts";
+import { DEFAULT_FEE_STRATEGIES, estimateFees, Fees } from "./feeStrategy";
+
+// A burner key as kept at rest: the private key is only stored encrypted.
+export type StoredSessionKey = {
+    chainId: number;
+    // Lowercase address of the wallet that funds the session.
+    owner: Hex;
+    address: Hex;
+    iv: ArrayBuffer;
+    ciphertext: ArrayBuffer;
+    // Most the owner agreed to fund the burner with.
+    allowance: bigint;
+    createdAt: number;
+    expiresAt: number;
+};
+
+export type SessionKey = {
+    chainId: number;
+    owner: Hex;
+    account: PrivateKeyAccount;
+    allowance: bigint;
+    expiresAt: number;
+};
+
+// Where burner keys are persisted between page loads.
+export type SessionKeyStore = {
+    get(chainId: number, owner: Hex): Promise<StoredSessionKey | undefined>;
+    put(entry: StoredSessionKey): Promise<void>;
+    delete(chainId: number, owner: Hex): Promise<void>;
+    encrypt(
+        privateKey: Hex
+    ): Promise<{ iv: ArrayBuffer; ciphertext: ArrayBuffer }>;
+    decrypt(entry: StoredSessionKey): Promise<Hex>;
+};
+
+export class SessionExpiredError extends Error {
+    constructor(public readonly expiresAt: number) {
+        super(`Session key expired at ${new Date(expiresAt).toISOString()}.`);
+        this.name = "SessionExpiredError";
+    }
+}
+
+const KEYS = "keys";
+const SECRETS = "secrets";
+const ENCRYPTION_KEY = "encryption-key";
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Keys are encrypted with AES-GCM under a non-extractable key that never
+// leaves IndexedDB, so a copy of the stored records alone can't spend them.
+// There is no localStorage fallback: it can't hold a `CryptoKey`.
+export async function openSessionKeyStore(
+    name = "mega2048-session-keys"
+): Promise<SessionKeyStore> {
+    const open = indexedDB.open(name, 1);
+    open.onupgradeneeded = () => {
+        open.result.createObjectStore(KEYS, { keyPath: ["chainId", "owner"] });
+        open.result.createObjectStore(SECRETS);
+    };
+    const db = await promisify(open);
+
+    const objectStore = (store: string, mode: IDBTransactionMode) =>
+        db.transaction(store, mode).objectStore(store);
+
+    let encryptionKey: CryptoKey | undefined = await promisify(
+        objectStore(SECRETS, "readonly").get(ENCRYPTION_KEY)
+    );
+    if (!encryptionKey) {
+        encryptionKey = await crypto.subtle.generateKey(
+            { name: "AES-GCM", length: 256 },
+            false,
+            ["encrypt", "decrypt"]
+        );
+        await promisify(
+            objectStore(SECRETS, "readwrite").put(encryptionKey, ENCRYPTION_KEY)
+        );
+    }
+    const key = encryptionKey;
+
+    return {
+        get: (chainId, owner) =>
+            promisify(objectStore(KEYS, "readonly").get([chainId, owner])),
+        put: async (entry) => {
+            await promisify(objectStore(KEYS, "readwrite").put(entry));
+        },
+        delete: async (chainId, owner) => {
+            await promisify(
+                objectStore(KEYS, "readwrite").delete([chainId, owner])
+            );
+        },
+        encrypt: async (privateKey) => {
+            const iv = crypto.getRandomValues(new Uint8Array(12));
+            const ciphertext = await crypto.subtle.encrypt(
+                { name: "AES-GCM", iv },
+                key,
+                new TextEncoder().encode(privateKey)
+            );
+            return { iv: iv.buffer, ciphertext };
+        },
+        decrypt: async ({ iv, ciphertext }) => {
+            const plaintext = await crypto.subtle.decrypt(
+                { name: "AES-GCM", iv },
+                key,
+                ciphertext
+            );
+            return new TextDecoder().decode(plaintext) as Hex;
+        },
+    };
+}
+
+export type SessionKeys = ReturnType<typeof createSessionKeys>;
+
+// Burner keys that sign moves locally, so external wallets are only asked
+// once per session: to fund the burner. Leftover funds go back to the owner
+// when the session ends.
+export function createSessionKeys({
+    client,
+    store,
+    ttlMs = 4 * 60 * 60 * 1000,
+}: {
+    client: PublicClient;
+    store: Promise<SessionKeyStore>;
+    // How long a burner may sign before it must be swept and replaced.
+    ttlMs?: number;
+}) {
+    // Next nonce per burner; reloaded from the chain after a failed send.
+    const nonces = new Map<Hex, number>();
+
+    const getChainId = async () => client.chain?.id ?? client.getChainId();
+
+    function isExpired(session: SessionKey) {
+        return Date.now() >= session.expiresAt;
+    }
+
+    // The owner's stored burner on the current chain, expired or not.
+    async function load(owner: Hex): Promise<SessionKey | null> {
+        const opened = await store;
+        const chainId = await getChainId();
+        const entry = await opened.get(chainId, owner.toLowerCase() as Hex);
+        if (!entry) {
+            return null;
+        }
+        return {
+            chainId,
+            owner: entry.owner,
+            account: privateKeyToAccount(await opened.decrypt(entry)),
+            allowance: entry.allowance,
+            expiresAt: entry.expiresAt,
+        };
+    }
+
+    async function create(owner: Hex, allowance: bigint): Promise<SessionKey> {
+        const opened = await store;
+        const chainId = await getChainId();
+        const privateKey = generatePrivateKey();
+        const account = privateKeyToAccount(privateKey);
+        const createdAt = Date.now();
+
+        const session: SessionKey = {
+            chainId,
+            owner: owner.toLowerCase() as Hex,
+            account,
+            allowance,
+            expiresAt: createdAt + ttlMs,
+        };
+        await opened.put({
+            chainId,
+            owner: session.owner,
+            address: account.address,
+            ...(await opened.encrypt(privateKey)),
+            allowance,
+            createdAt,
+            expiresAt: session.expiresAt,
+        });
+        return session;
+    }
+
+    // Records a new allowance for a stored burner, keeping the key. Funding
+    // tops the burner up to a raised one; a lowered one only caps later
+    // top-ups, and what it already holds stays until it is swept.
+    async function setAllowance(
+        session: SessionKey,
+        allowance: bigint
+    ): Promise<SessionKey> {
+        const opened = await store;
+        const entry = await opened.get(session.chainId, session.owner);
+        if (entry) {
+            await opened.put({ ...entry, allowance });
+        }
+        return { ...session, allowance };
+    }
+
+    // What the owner has to send for the burner to hold its allowance again.
+    async function getFundingAmount(session: SessionKey): Promise<bigint> {
+        const balance = await client.getBalance({
+            address: session.account.address,
+        });
+        return balance < session.allowance ? session.allowance - balance : 0n;
+    }
+
+    // Signs and broadcasts a contract call with the burner.
+    async function sendTransaction(
+        session: SessionKey,
+        {
+            to,
+            data,
+            gas,
+            maxFeePerGas,
+            maxPriorityFeePerGas,
+        }: { to: Hex; data: Hex; gas: bigint } & Fees
+    ): Promise<Hex> {
+        if (isExpired(session)) {
+            throw new SessionExpiredError(session.expiresAt);
+        }
+
+        const { address } = session.account;
+        const nonce =
+            nonces.get(address) ??
+            (await client.getTransactionCount({
+                address,
+                blockTag: "pending",
+            }));
+        nonces.set(address, nonce + 1);
+
+        try {
+            const signed = await session.account.signTransaction({
+                type: "eip1559",
+                chainId: session.chainId,
+                nonce,
+                to,
+                data,
+                gas,
+                maxFeePerGas,
+                maxPriorityFeePerGas,
+            });
+            return await client.sendRawTransaction({
+                serializedTransaction: signed,
+            });
+        } catch (error) {
+            nonces.delete(address);
+            throw error;
+        }
+    }
+
+    // Returns what is left on the burner to the owner and forgets the key.
+    // Resolves null when the balance doesn't cover the transfer's gas.
+    async function sweep(session: SessionKey): Promise<Hex | null> {
+        const { address } = session.account;
+        const [balance, gas, fees] = await Promise.all([
+            client.getBalance({ address }),
+            client.estimateGas({
+                account: address,
+                to: session.owner,
+                value: 1n,
+            }),
+            estimateFees(client, DEFAULT_FEE_STRATEGIES.play),
+        ]);
+
+        let hash: Hex | null = null;
+        const maxCost = gas * fees.maxFeePerGas;
+        if (balance > maxCost) {
+            const nonce = await client.getTransactionCount({
+                address,
+                blockTag: "pending",
+            });
+            const signed = await session.account.signTransaction({
+                type: "eip1559",
+                chainId: session.chainId,
+                nonce,
+                to: session.owner,
+                value: balance - maxCost,
+                gas,
+                ...fees,
+            });
+            hash = await client.sendRawTransaction({
+                serializedTransaction: signed,
+            });
+            await client.waitForTransactionReceipt({ hash });
+        }
+
+        nonces.delete(address);
+        await (await store).delete(session.chainId, session.owner);
+        return hash;
+    }
+
+    return {
+        load,
+        create,
+        setAllowance,
+        getFundingAmount,
+        sendTransaction,
+        sweep,
+        isExpired,
+    };
+}
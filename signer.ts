@@ -0,0 +1,177 @@
+import { ConnectedWallet } from "@privy-io/react-auth";
+import { createWalletClient, custom, Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+export type SignerKind = "privy" | "injected" | "local";
+
+// A fully specified EIP-1559 transaction; nothing is filled in by the signer.
+export type SignerTransaction = {
+    to: Hex;
+    data?: Hex;
+    value?: bigint;
+    nonce: number;
+    gas: bigint;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+};
+
+// What the hook needs from a wallet, whatever kind it is.
+export type Signer = {
+    kind: SignerKind;
+    address: Hex;
+    getChainId(): Promise<number>;
+    // Asks the wallet to move to `chainId`. Rejects if it can't.
+    switchChain(chainId: number): Promise<void>;
+    // False once the wallet refused `eth_signTransaction`.
+    canSign(): boolean;
+    signTransaction(transaction: SignerTransaction): Promise<Hex>;
+    // Has the wallet sign and broadcast in one step. Unset for signers that
+    // can always sign, like local keys.
+    sendTransaction?(transaction: SignerTransaction): Promise<Hex>;
+    // Calls `listener` when the wallet moves to another chain. Returns a
+    // function that stops it.
+    onChainChanged(listener: (chainId: number) => void): () => void;
+};
+
+// The part of an EIP-1193 provider the signers use. Events are optional:
+// not every provider emits them.
+export type Eip1193Provider = {
+    request(args: { method: string; params?: unknown }): Promise<any>;
+    on?(event: "chainChanged", listener: (chainId: unknown) => void): void;
+    removeListener?(
+        event: "chainChanged",
+        listener: (chainId: unknown) => void
+    ): void;
+};
+
+// Codes wallets answer with for a method they don't implement: EIP-1193's
+// unsupported method, JSON-RPC's method not found and EIP-1474's method not
+// supported.
+const UNSUPPORTED_CODES = [4200, -32601, -32004];
+
+// Whether anywhere in an error chain the wallet said it doesn't support a
+// method, as opposed to the user rejecting it.
+export function isMethodUnsupported(error: unknown): boolean {
+    let current: any = error;
+    while (current) {
+        if (
+            UNSUPPORTED_CODES.includes(current.code) ||
+            /not supported|does not support|unsupported method|method not found/i.test(
+                current.message ?? ""
+            )
+        ) {
+            return true;
+        }
+        current = current.cause;
+    }
+    return false;
+}
+
+// Signs through any EIP-1193 provider. Transactions follow the wallet's
+// current chain, so the same signer keeps working after a network switch.
+export function createEip1193Signer({
+    kind = "injected",
+    provider,
+    address,
+    switchChain,
+}: {
+    kind?: SignerKind;
+    provider: Eip1193Provider;
+    address: Hex;
+    // Defaults to `wallet_switchEthereumChain`.
+    switchChain?: (chainId: number) => Promise<void>;
+}): Signer {
+    const client = createWalletClient({
+        account: address,
+        transport: custom(provider),
+    });
+    let canSign = true;
+
+    return {
+        kind,
+        address,
+        getChainId: () => client.getChainId(),
+        switchChain:
+            switchChain ?? ((chainId) => client.switchChain({ id: chainId })),
+        canSign: () => canSign,
+        signTransaction: async (transaction) => {
+            try {
+                return await client.signTransaction({
+                    ...transaction,
+                    chain: null,
+                });
+            } catch (error) {
+                if (isMethodUnsupported(error)) {
+                    canSign = false;
+                }
+                throw error;
+            }
+        },
+        sendTransaction: (transaction) =>
+            client.sendTransaction({ ...transaction, chain: null }),
+        onChainChanged: (listener) => {
+            const onChainChanged = (chainId: unknown) =>
+                listener(Number(chainId));
+            provider.on?.("chainChanged", onChainChanged);
+            return () =>
+                provider.removeListener?.("chainChanged", onChainChanged);
+        },
+    };
+}
+
+// A browser extension wallet, e.g. `window.ethereum`. Asks the user to
+// connect if they haven't yet.
+export async function createInjectedSigner(
+    provider: Eip1193Provider
+): Promise<Signer> {
+    const [address] = await provider.request({
+        method: "eth_requestAccounts",
+    });
+    if (!address) {
+        throw Error("The wallet didn't share an account.");
+    }
+    return createEip1193Signer({ provider, address });
+}
+
+// A wallet connected through Privy: its embedded wallet, or an external one
+// like an extension or WalletConnect.
+export async function createPrivySigner(
+    wallet: ConnectedWallet
+): Promise<Signer> {
+    return createEip1193Signer({
+        kind: wallet.walletClientType === "privy" ? "privy" : "injected",
+        provider: await wallet.getEthereumProvider(),
+        address: wallet.address as Hex,
+        switchChain: (chainId) => wallet.switchChain(chainId),
+    });
+}
+
+// Signs with a private key held in memory, e.g. for scripts and bots.
+// It signs for whichever chain it was last switched to.
+export function createLocalSigner({
+    privateKey,
+    chainId,
+}: {
+    privateKey: Hex;
+    chainId: number;
+}): Signer {
+    const account = privateKeyToAccount(privateKey);
+    let currentChainId = chainId;
+
+    return {
+        kind: "local",
+        address: account.address,
+        getChainId: async () => currentChainId,
+        switchChain: async (chainId) => {
+            currentChainId = chainId;
+        },
+        canSign: () => true,
+        signTransaction: (transaction) =>
+            account.signTransaction({
+                type: "eip1559",
+                chainId: currentChainId,
+                ...transaction,
+            }),
+        onChainChanged: () => () => {},
+    };
+}
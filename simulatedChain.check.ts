@@ -0,0 +1,485 @@
+// Drives every failure the simulated chain can produce through the RPC pool
+// and `classifyError`, as `sendRawTransactionAndConfirm` sees them, and the
+// retries of the hook's remediation policy. Run with
+// `npx tsx simulatedChain.check.ts`.
+import {
+    createPublicClient,
+    custom,
+    Hex,
+    keccak256,
+    parseEther,
+    parseGwei,
+    toHex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { megaethTestnet } from "viem/chains";
+import { createBalanceLedger } from "./balanceLedger";
+import { applyMove, DIRECTIONS, packBoard, unpackBoard } from "./boardEngine";
+import { check, report } from "./check";
+import { baseFeeMultiplierStrategy } from "./feeStrategy";
+import { createGasLimitCache, getGasLimitKey } from "./gasLimitCache";
+import { buildGameSetup, spawnTile } from "./gameSetup";
+import {
+    decodeGetBoard,
+    encodeGetBoard,
+    encodePlay,
+    encodeStartGame,
+} from "./mega2048Contract";
+import { createNonceManager } from "./nonceManager";
+import { createRemediationPolicy, RetryableRequest } from "./remediation";
+import {
+    AlreadyKnownError,
+    classifyError,
+    ContractRevertError,
+    ExceedsBlockGasLimitError,
+    FeeTooLowError,
+    InsufficientFundsError,
+    NetworkError,
+    NonceTooLowError,
+    ReplacementUnderpricedError,
+    TipAboveFeeCapError,
+    TransactionError,
+} from "./rpcErrors";
+import { createRpcPool } from "./rpcPool";
+import { createSimulatedChain } from "./simulatedChain";
+
+const CONTRACT: Hex = "0x00000000000000000000000000000000000020a8";
+
+// Fixed, so every run plays the same games with the same hashes.
+const PRIVATE_KEY: Hex =
+    "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const GAME_SEED = keccak256(toHex("simulated chain check"));
+
+// Checks that `promise` rejects, classified as `ErrorClass`.
+async function expectError(
+    name: string,
+    promise: Promise<unknown>,
+    ErrorClass: new (...args: never[]) => TransactionError
+): Promise<TransactionError | undefined> {
+    try {
+        await promise;
+    } catch (error) {
+        const classified = classifyError(error);
+        check(
+            name,
+            classified instanceof ErrorClass,
+            `got ${classified.name}: ${classified.details}`
+        );
+        return classified;
+    }
+    check(name, false, "did not fail");
+    return undefined;
+}
+
+// A chain that mines only on `mine`, its funded key and a pool in front.
+function setUp({
+    initialBalance,
+    timeoutMs = 5_000,
+}: { initialBalance?: bigint; timeoutMs?: number } = {}) {
+    const account = privateKeyToAccount(PRIVATE_KEY);
+    const chain = createSimulatedChain({
+        contractAddress: CONTRACT,
+        privateKey: PRIVATE_KEY,
+        initialBalance,
+        blockTimeMs: 1_000,
+    });
+    const pool = createRpcPool({
+        endpoints: [chain.endpoint],
+        timeoutMs,
+        maxConsecutiveFailures: Infinity,
+    });
+
+    // Signs a call of the contract, on the next nonce unless overridden.
+    let nextNonce = 0;
+    const sign = (
+        data: Hex,
+        overrides: {
+            nonce?: number;
+            gas?: bigint;
+            maxFeePerGas?: bigint;
+            maxPriorityFeePerGas?: bigint;
+        } = {}
+    ) =>
+        account.signTransaction({
+            type: "eip1559",
+            chainId: megaethTestnet.id,
+            to: CONTRACT,
+            data,
+            nonce: overrides.nonce ?? nextNonce++,
+            gas: 200_000n,
+            maxFeePerGas: parseGwei("1"),
+            maxPriorityFeePerGas: parseGwei("0.001"),
+            ...overrides,
+        });
+
+    const send = async (signed: Promise<Hex> | Hex) =>
+        (await pool.request({
+            method: "eth_sendRawTransaction",
+            params: [await signed],
+        })) as Hex;
+
+    const receipt = (hash: Hex) =>
+        pool.request({
+            method: "eth_getTransactionReceipt",
+            params: [hash],
+        }) as Promise<{ status: Hex } | null>;
+
+    return { chain, pool, account, sign, send, receipt };
+}
+
+// The hook's send path against the chain: nonces, gas limits and balance are
+// booked by the hook's modules, and a failed send goes through its
+// remediation policy. Every attempt is kept.
+function setUpSender(options: Parameters<typeof setUp>[0] = {}) {
+    const { chain, pool, account, sign, send, receipt } = setUp(options);
+    const client = createPublicClient({ transport: custom(pool) });
+    const nonceManager = createNonceManager({
+        getTransactionCount: (blockTag) =>
+            client.getTransactionCount({ address: account.address, blockTag }),
+        fillGap: () => Promise.reject(Error("No nonce gaps expected.")),
+    });
+    const gasLimits = createGasLimitCache();
+    const balanceLedger = createBalanceLedger();
+    const remediation = createRemediationPolicy({
+        nonceManager,
+        getGasLimits: () => gasLimits,
+        refreshBalance: async () =>
+            balanceLedger.reset(
+                await client.getBalance({ address: account.address })
+            ),
+    });
+
+    const attempts: RetryableRequest[] = [];
+    async function sendOnce(attempt: RetryableRequest): Promise<Hex> {
+        attempts.push(attempt);
+        const fees =
+            attempt.maxFeePerGas && attempt.maxPriorityFeePerGas
+                ? {
+                      maxFeePerGas: attempt.maxFeePerGas,
+                      maxPriorityFeePerGas: attempt.maxPriorityFeePerGas,
+                  }
+                : await (
+                      attempt.fees?.strategy ?? baseFeeMultiplierStrategy()
+                  ).getFees(client);
+        const gasKey = attempt.gasKey ?? getGasLimitKey(attempt.data);
+        if (!attempt.gas && !gasLimits.get(gasKey)) {
+            gasLimits.seed(
+                gasKey,
+                await client.estimateGas({
+                    account: account.address,
+                    to: CONTRACT,
+                    data: attempt.data,
+                })
+            );
+        }
+
+        const nonce = nonceManager.reserve();
+        try {
+            const hash = await send(
+                sign(attempt.data, {
+                    nonce,
+                    gas: attempt.gas ?? gasLimits.get(gasKey),
+                    ...fees,
+                })
+            );
+            nonceManager.markSent(nonce, hash);
+            return hash;
+        } catch (error) {
+            nonceManager.markFailed(nonce);
+            throw error;
+        }
+    }
+
+    return {
+        chain,
+        sign,
+        send,
+        receipt,
+        gasLimits,
+        balanceLedger,
+        attempts,
+        sendWithRetries: (request: RetryableRequest) =>
+            remediation.send(request, sendOnce),
+    };
+}
+
+// A game for `player` and its first valid move.
+function openGame(player: Hex) {
+    const setup = buildGameSetup({ player, seed: GAME_SEED });
+    const cells = unpackBoard(setup.boards[3]);
+    const direction = DIRECTIONS.find((d) => applyMove(cells, d).changed)!;
+    const result = packBoard(
+        spawnTile(applyMove(cells, direction).cells, () => 0)
+    );
+    return {
+        ...setup,
+        startGame: encodeStartGame(setup.gameId, setup.boards, setup.moves),
+        play: encodePlay(setup.gameId, direction, result),
+        result,
+    };
+}
+
+async function main() {
+    // Rejections of `eth_sendRawTransaction`.
+    {
+        const { chain, sign, send } = setUp({
+            initialBalance: parseEther("0.001"),
+        });
+        const game = openGame(chain.address);
+
+        const first = await sign(game.startGame);
+        await send(first);
+        await expectError("already known", send(first), AlreadyKnownError);
+        await expectError(
+            "replacement underpriced",
+            send(sign(game.play, { nonce: 0 })),
+            ReplacementUnderpricedError
+        );
+        chain.mine();
+        await expectError(
+            "nonce too low",
+            send(sign(game.play, { nonce: 0 })),
+            NonceTooLowError
+        );
+        await expectError(
+            "fee below the base fee",
+            send(
+                sign(game.play, { maxFeePerGas: 1n, maxPriorityFeePerGas: 1n })
+            ),
+            FeeTooLowError
+        );
+        await expectError(
+            "tip above the fee cap",
+            send(sign(game.play, { maxPriorityFeePerGas: parseGwei("2") })),
+            TipAboveFeeCapError
+        );
+        await expectError(
+            "block gas limit",
+            send(sign(game.play, { gas: 40_000_000n })),
+            ExceedsBlockGasLimitError
+        );
+        await expectError(
+            "insufficient funds",
+            send(sign(game.play, { maxFeePerGas: parseGwei("1000") })),
+            InsufficientFundsError
+        );
+    }
+
+    // Reverts: refused by the estimate, and mined with a failed status.
+    {
+        const { chain, pool, sign, send, receipt } = setUp();
+        const game = openGame(chain.address);
+
+        const reverted = await expectError(
+            "estimate of a move in an unknown game",
+            pool.request({
+                method: "eth_estimateGas",
+                params: [
+                    { from: chain.address, to: CONTRACT, data: game.play },
+                ],
+            }),
+            ContractRevertError
+        );
+        check(
+            "revert reason",
+            reverted?.message.includes("GamePlayerMismatch") ?? false,
+            reverted?.message
+        );
+
+        chain.inject({ type: "revert" });
+        const hash = await send(sign(game.startGame));
+        chain.mine();
+        check("injected revert", (await receipt(hash))?.status === "0x0");
+        check("reverted start", chain.getGame(game.gameId) === undefined);
+    }
+
+    // Drops: accepted, but never mined.
+    {
+        const { chain, sign, send, receipt } = setUp();
+        chain.inject({ type: "drop" });
+        const hash = await send(sign(openGame(chain.address).startGame));
+        chain.mine();
+        chain.mine();
+        check("dropped", chain.dropped().includes(hash));
+        check("no receipt when dropped", (await receipt(hash)) === null);
+    }
+
+    // Node errors and an endpoint that stops answering.
+    {
+        const { chain, pool } = setUp({ timeoutMs: 50 });
+        chain.inject({
+            type: "rpcError",
+            method: "eth_blockNumber",
+            code: -32005,
+            message: "limit exceeded",
+        });
+        try {
+            await pool.request({ method: "eth_blockNumber" });
+            check("injected RPC error", false, "did not fail");
+        } catch (error) {
+            check(
+                "injected RPC error",
+                (error as { code?: unknown }).code === -32005
+            );
+        }
+
+        chain.inject({ type: "timeout", method: "eth_chainId" });
+        await expectError(
+            "timed out endpoint",
+            pool.request({ method: "eth_chainId" }),
+            NetworkError
+        );
+    }
+
+    // The `pending` tag sees transactions that are not mined yet.
+    {
+        const { chain, pool, sign, send } = setUp();
+        const game = openGame(chain.address);
+        await send(sign(game.startGame));
+
+        const estimatePlay = (blockTag: string) =>
+            pool.request({
+                method: "eth_estimateGas",
+                params: [
+                    { from: chain.address, to: CONTRACT, data: game.play },
+                    blockTag,
+                ],
+            });
+        await expectError(
+            "estimate at latest before mining",
+            estimatePlay("latest"),
+            ContractRevertError
+        );
+        try {
+            await estimatePlay("pending");
+        } catch (error) {
+            check("estimate at pending", false, String(error));
+        }
+
+        await send(sign(game.play));
+        const getBoard = (blockTag: string) =>
+            pool
+                .request({
+                    method: "eth_call",
+                    params: [
+                        { to: CONTRACT, data: encodeGetBoard(game.gameId) },
+                        blockTag,
+                    ],
+                })
+                .then((result) => decodeGetBoard(result as Hex));
+        const [, latestMove] = await getBoard("latest");
+        const [pendingBoard, pendingMove] = await getBoard("pending");
+        check("board at latest before mining", latestMove === 0n);
+        check(
+            "board at pending",
+            pendingMove === 5n && packBoard(pendingBoard) === game.result
+        );
+        check("state put back", chain.getGame(game.gameId) === undefined);
+    }
+
+    // Remediations the hook applies before retrying a send.
+    {
+        // Another sender used the nonce: reloaded, then sent on the next one.
+        const { chain, sign, send, receipt, attempts, sendWithRetries } =
+            setUpSender();
+        const game = openGame(chain.address);
+        await send(sign(game.startGame));
+        chain.mine();
+        const hash = await sendWithRetries({ data: game.play });
+        chain.mine();
+        check("retried after nonce too low", attempts.length === 2);
+        check(
+            "sent on the next nonce",
+            (await receipt(hash))?.status === "0x1"
+        );
+    }
+    {
+        // Priced under the base fee: repriced by the fee history.
+        const { chain, receipt, attempts, sendWithRetries } = setUpSender();
+        const game = openGame(chain.address);
+        await sendWithRetries({ data: game.startGame });
+        chain.mine();
+        attempts.length = 0;
+        const hash = await sendWithRetries({
+            data: game.play,
+            maxFeePerGas: 1n,
+            maxPriorityFeePerGas: 1n,
+        });
+        chain.mine();
+        check(
+            "repriced after fee too low",
+            attempts.length === 2 &&
+                attempts[1].maxFeePerGas === undefined &&
+                attempts[1].fees?.strategy?.name === "feeHistory fast",
+            attempts[1]?.fees?.strategy?.name
+        );
+        check("repriced move mined", (await receipt(hash))?.status === "0x1");
+    }
+    {
+        // A gas limit above the block's: estimated again.
+        const { chain, receipt, gasLimits, attempts, sendWithRetries } =
+            setUpSender();
+        const game = openGame(chain.address);
+        const hash = await sendWithRetries({
+            data: game.startGame,
+            gas: 40_000_000n,
+        });
+        chain.mine();
+        check(
+            "re-estimated after the block gas limit",
+            attempts.length === 2 &&
+                attempts[1].gas === undefined &&
+                gasLimits.get(getGasLimitKey(game.startGame)) !== undefined
+        );
+        check(
+            "re-estimated start mined",
+            (await receipt(hash))?.status === "0x1"
+        );
+    }
+    {
+        // Not enough ETH: the balance is reloaded, and the player has to act.
+        const { chain, balanceLedger, attempts, sendWithRetries } = setUpSender(
+            { initialBalance: parseEther("0.001") }
+        );
+        await expectError(
+            "insufficient funds not retried",
+            sendWithRetries({
+                data: openGame(chain.address).startGame,
+                gas: 200_000n,
+                maxFeePerGas: parseGwei("1000"),
+                maxPriorityFeePerGas: parseGwei("1"),
+            }),
+            InsufficientFundsError
+        );
+        check("sent once", attempts.length === 1);
+        check(
+            "balance refreshed",
+            balanceLedger.available() === parseEther("0.001")
+        );
+    }
+    {
+        // A remediation that doesn't help is given up after one retry.
+        const { chain, attempts, sendWithRetries } = setUpSender();
+        for (let i = 0; i < 2; i++) {
+            chain.inject({
+                type: "rpcError",
+                method: "eth_sendRawTransaction",
+                code: -32000,
+                message: "nonce too low",
+            });
+        }
+        await expectError(
+            "retries are bounded",
+            sendWithRetries({ data: openGame(chain.address).startGame }),
+            NonceTooLowError
+        );
+        check("sent twice", attempts.length === 2);
+    }
+}
+
+main().then(() =>
+    report(
+        "simulated chain",
+        "Simulated chain error paths behave as on a live node"
+    )
+);
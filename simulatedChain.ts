@@ -0,0 +1,1010 @@
+import {
+    Address,
+    encodeAbiParameters,
+    encodeErrorResult,
+    encodeEventTopics,
+    encodeFunctionResult,
+    Hex,
+    hexToBigInt,
+    keccak256,
+    numberToHex,
+    parseEther,
+    parseGwei,
+    parseTransaction,
+    recoverTransactionAddress,
+    TransactionSerializableEIP1559,
+    TransactionSerializedEIP1559,
+    zeroHash,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { megaethTestnet } from "viem/chains";
+import {
+    emptyCells,
+    isGameOver,
+    unpackBoard,
+    validateTransition,
+} from "./boardEngine";
+import {
+    decodeMega2048Call,
+    Mega2048ErrorName,
+    MEGA2048_ABI,
+} from "./mega2048Contract";
+import { RpcEndpoint } from "./rpcPool";
+
+// A one-off failure, applied to the next transaction or request it matches.
+export type SimulatedFault =
+    // The node accepts the transaction but never mines it.
+    | { type: "drop" }
+    // The transaction is mined but reverts.
+    | { type: "revert" }
+    // The next call of `method` (any method when omitted) fails.
+    | { type: "rpcError"; method?: string; code?: number; message: string }
+    // The next call of `method` never answers, like a dead endpoint.
+    | { type: "timeout"; method?: string };
+
+// A JSON-RPC error as a node would return it.
+export class SimulatedRpcError extends Error {
+    constructor(
+        public readonly code: number,
+        message: string,
+        public readonly data?: Hex
+    ) {
+        super(message);
+        this.name = "SimulatedRpcError";
+    }
+}
+
+type Account = { balance: bigint; nonce: number };
+
+type Game = { player: Address; board: bigint; nextMoveNumber: number };
+
+type SimulatedTransaction = {
+    hash: Hex;
+    from: Address;
+    serialized: Hex;
+    transaction: TransactionSerializableEIP1559;
+    fault?: SimulatedFault;
+};
+
+// A call or transaction as wallets and nodes receive it over JSON-RPC.
+type RpcCallRequest = {
+    from?: Address;
+    to?: Address;
+    data?: Hex;
+    input?: Hex;
+    value?: Hex;
+    nonce?: Hex;
+    gas?: Hex;
+    maxFeePerGas?: Hex;
+    maxPriorityFeePerGas?: Hex;
+};
+
+type RpcLogFilter = {
+    address?: Address | Address[];
+    topics?: (Hex | Hex[] | null)[];
+    fromBlock?: string;
+    toBlock?: string;
+};
+
+type SimulatedLog = {
+    address: Address;
+    topics: Hex[];
+    data: Hex;
+    logIndex: number;
+};
+
+type SimulatedReceipt = {
+    status: "success" | "reverted";
+    gasUsed: bigint;
+    effectiveGasPrice: bigint;
+    logs: SimulatedLog[];
+};
+
+type SimulatedBlock = {
+    number: number;
+    hash: Hex;
+    timestamp: number;
+    baseFeePerGas: bigint;
+    gasUsed: bigint;
+    transactions: { tx: SimulatedTransaction; receipt: SimulatedReceipt }[];
+};
+
+// Result of running a call against the current state.
+type Execution = {
+    gasUsed: bigint;
+    revert?: Hex;
+    logs: Omit<SimulatedLog, "logIndex">[];
+    apply: () => void;
+};
+
+// Gas the simulated contract charges; moves cost more as the board fills.
+const TRANSFER_GAS = 21_000n;
+const START_GAME_GAS = 140_000n;
+const PLAY_BASE_GAS = 45_000n;
+const PLAY_GAS_PER_TILE = 2_000n;
+const BLOCK_GAS_LIMIT = 30_000_000n;
+
+// Deterministic PRNG, so a seed reproduces the same drops and reverts.
+function mulberry32(seed: number) {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export type SimulatedChain = ReturnType<typeof createSimulatedChain>;
+
+// An in-memory MEGAETH node with the Mega2048 contract deployed, for offline
+// development, demos and tests. It answers the JSON-RPC methods the hooks use
+// and holds one funded account whose key signs `eth_signTransaction` and
+// `eth_sendTransaction`, like a local dev node.
+export function createSimulatedChain({
+    contractAddress,
+    privateKey = generatePrivateKey(),
+    initialBalance = parseEther("1"),
+    baseFeePerGas = parseGwei("0.001"),
+    priorityFeePerGas = parseGwei("0.001"),
+    blockTimeMs = 10,
+    latencyMs = 0,
+    dropRate = 0,
+    revertRate = 0,
+    seed = 1,
+}: {
+    contractAddress: Address;
+    privateKey?: Hex;
+    initialBalance?: bigint;
+    baseFeePerGas?: bigint;
+    // Tip reported by `eth_maxPriorityFeePerGas` and empty fee history.
+    priorityFeePerGas?: bigint;
+    // Interval between blocks; 0 mines only when `mine` is called.
+    blockTimeMs?: number;
+    // Delay of every request, fixed or drawn from a range.
+    latencyMs?: number | { min: number; max: number };
+    // Share of accepted transactions that are silently dropped.
+    dropRate?: number;
+    // Share of contract calls that revert when mined.
+    revertRate?: number;
+    seed?: number;
+}) {
+    const random = mulberry32(seed);
+    const signer = privateKeyToAccount(privateKey);
+    const chainId = megaethTestnet.id;
+
+    const accounts = new Map<Address, Account>();
+    const games = new Map<Hex, Game>();
+    const pool = new Map<Hex, SimulatedTransaction>();
+    const dropped = new Set<Hex>();
+    const blocks: SimulatedBlock[] = [];
+    const faults: SimulatedFault[] = [];
+    let currentBaseFee = baseFeePerGas;
+    let spike: { multiplier: bigint; blocks: number } | null = null;
+    let blockTimer: ReturnType<typeof setInterval> | null = null;
+
+    const normalize = (address: string) => address.toLowerCase() as Address;
+
+    function getAccount(address: string): Account {
+        const key = normalize(address);
+        let account = accounts.get(key);
+        if (!account) {
+            account = { balance: 0n, nonce: 0 };
+            accounts.set(key, account);
+        }
+        return account;
+    }
+
+    function latestBlock(): SimulatedBlock {
+        return blocks[blocks.length - 1];
+    }
+
+    function blockBaseFee(): bigint {
+        return spike ? currentBaseFee * spike.multiplier : currentBaseFee;
+    }
+
+    // Removes the first queued fault matching `test`.
+    function takeFault(test: (fault: SimulatedFault) => boolean) {
+        const index = faults.findIndex(test);
+        return index === -1 ? undefined : faults.splice(index, 1)[0];
+    }
+
+    function revertWith(error: Mega2048ErrorName): Hex {
+        return encodeErrorResult({ abi: MEGA2048_ABI, errorName: error });
+    }
+
+    // Runs a call without committing it. `apply` commits its state changes.
+    function execute(
+        from: Address,
+        to: Address | undefined,
+        data: Hex = "0x"
+    ): Execution {
+        const none = { logs: [], apply: () => {} };
+        if (!to || normalize(to) !== normalize(contractAddress)) {
+            return { gasUsed: TRANSFER_GAS, ...none };
+        }
+
+        let call;
+        try {
+            call = decodeMega2048Call(data);
+        } catch {
+            return { gasUsed: TRANSFER_GAS, revert: "0x", ...none };
+        }
+
+        if (call.functionName === "startGame") {
+            const [gameId, boards, moves] = call.args;
+            const revert = (error: Mega2048ErrorName) => ({
+                gasUsed: START_GAME_GAS / 2n,
+                revert: revertWith(error),
+                ...none,
+            });
+            if (games.has(gameId)) {
+                return revert("GameIdUsed");
+            }
+            for (let i = 0; i < moves.length; i++) {
+                if (validateTransition(boards[i], moves[i], boards[i + 1])) {
+                    return revert("GameBoardInvalid");
+                }
+            }
+            return {
+                gasUsed: START_GAME_GAS,
+                logs: [
+                    {
+                        address: contractAddress,
+                        topics: encodeEventTopics({
+                            abi: MEGA2048_ABI,
+                            eventName: "NewGame",
+                            args: { player: from, id: gameId },
+                        }) as Hex[],
+                        data: encodeAbiParameters(
+                            [{ type: "uint256" }],
+                            [boards[3]]
+                        ),
+                    },
+                ],
+                apply: () =>
+                    games.set(gameId, {
+                        player: from,
+                        board: boards[3],
+                        // The three opening moves count as moves 1 to 3.
+                        nextMoveNumber: 4,
+                    }),
+            };
+        }
+
+        if (call.functionName === "play") {
+            const [gameId, move, resultBoard] = call.args;
+            const game = games.get(gameId);
+            const revert = (error: Mega2048ErrorName) => ({
+                gasUsed: PLAY_BASE_GAS / 2n,
+                revert: revertWith(error),
+                ...none,
+            });
+            if (!game || normalize(game.player) !== normalize(from)) {
+                return revert("GamePlayerMismatch");
+            }
+            if (isGameOver(unpackBoard(game.board))) {
+                return revert("GameOver");
+            }
+            if (validateTransition(game.board, move, resultBoard)) {
+                return revert("MoveInvalid");
+            }
+            const tiles = 16 - emptyCells(unpackBoard(resultBoard)).length;
+            return {
+                gasUsed: PLAY_BASE_GAS + PLAY_GAS_PER_TILE * BigInt(tiles),
+                logs: [
+                    {
+                        address: contractAddress,
+                        topics: encodeEventTopics({
+                            abi: MEGA2048_ABI,
+                            eventName: "NewMove",
+                            args: { player: from, id: gameId },
+                        }) as Hex[],
+                        data: encodeAbiParameters(
+                            [{ type: "uint256" }, { type: "uint256" }],
+                            [BigInt(move), resultBoard]
+                        ),
+                    },
+                ],
+                apply: () => {
+                    game.board = resultBoard;
+                    game.nextMoveNumber += 1;
+                },
+            };
+        }
+
+        // `getBoard` is a view; sending it as a transaction does nothing.
+        return { gasUsed: TRANSFER_GAS + 5_000n, ...none };
+    }
+
+    function readBoard(gameId: Hex): Hex {
+        const game = games.get(gameId);
+        return encodeFunctionResult({
+            abi: MEGA2048_ABI,
+            functionName: "getBoard",
+            result: [
+                unpackBoard(game?.board ?? 0n),
+                BigInt(game?.nextMoveNumber ?? 0),
+            ],
+        });
+    }
+
+    // Runs one pool transaction into `block`, if its turn has come.
+    function include(tx: SimulatedTransaction, block: SimulatedBlock): boolean {
+        const { transaction } = tx;
+        const account = getAccount(tx.from);
+        if (transaction.nonce !== account.nonce) {
+            return false;
+        }
+        if (transaction.maxFeePerGas! < block.baseFeePerGas) {
+            return false;
+        }
+
+        const tip = transaction.maxFeePerGas! - block.baseFeePerGas;
+        const effectiveGasPrice =
+            block.baseFeePerGas +
+            (transaction.maxPriorityFeePerGas! < tip
+                ? transaction.maxPriorityFeePerGas!
+                : tip);
+
+        const execution = execute(
+            tx.from,
+            transaction.to ?? undefined,
+            transaction.data
+        );
+        const gasLimit = transaction.gas!;
+        let status: SimulatedReceipt["status"] = "success";
+        let gasUsed = execution.gasUsed;
+
+        if (gasUsed > gasLimit) {
+            // Out of gas consumes the whole limit.
+            status = "reverted";
+            gasUsed = gasLimit;
+        } else if (
+            execution.revert !== undefined ||
+            tx.fault?.type === "revert"
+        ) {
+            status = "reverted";
+        } else {
+            execution.apply();
+        }
+
+        account.nonce += 1;
+        account.balance -= gasUsed * effectiveGasPrice;
+        if (status === "success") {
+            account.balance -= transaction.value ?? 0n;
+            getAccount(transaction.to!).balance += transaction.value ?? 0n;
+        }
+
+        const logIndexStart = block.transactions.reduce(
+            (count, { receipt }) => count + receipt.logs.length,
+            0
+        );
+        block.gasUsed += gasUsed;
+        block.transactions.push({
+            tx,
+            receipt: {
+                status,
+                gasUsed,
+                effectiveGasPrice,
+                logs:
+                    status === "success"
+                        ? execution.logs.map((log, i) => ({
+                              ...log,
+                              logIndex: logIndexStart + i,
+                          }))
+                        : [],
+            },
+        });
+        pool.delete(tx.hash);
+        return true;
+    }
+
+    // Mines one block from the pool, in nonce order per sender.
+    function mine(): number {
+        const previous = latestBlock();
+        const number = previous.number + 1;
+        const block: SimulatedBlock = {
+            number,
+            hash: keccak256(numberToHex(number, { size: 32 })),
+            timestamp: Math.max(
+                previous.timestamp,
+                Math.floor(Date.now() / 1000)
+            ),
+            baseFeePerGas: blockBaseFee(),
+            gasUsed: 0n,
+            transactions: [],
+        };
+
+        let progressed = true;
+        while (progressed) {
+            progressed = false;
+            const pending = [...pool.values()].sort(
+                (a, b) => a.transaction.nonce! - b.transaction.nonce!
+            );
+            for (const tx of pending) {
+                if (block.gasUsed + tx.transaction.gas! > BLOCK_GAS_LIMIT) {
+                    continue;
+                }
+                progressed = include(tx, block) || progressed;
+            }
+        }
+
+        blocks.push(block);
+        if (spike && --spike.blocks <= 0) {
+            spike = null;
+        }
+        return number;
+    }
+
+    async function sendRawTransaction(serialized: Hex): Promise<Hex> {
+        const transaction = parseTransaction(serialized);
+        if (transaction.type !== "eip1559") {
+            throw new SimulatedRpcError(
+                -32000,
+                "only EIP-1559 transactions are supported"
+            );
+        }
+        const hash = keccak256(serialized);
+        const from = normalize(
+            await recoverTransactionAddress({
+                serializedTransaction:
+                    serialized as TransactionSerializedEIP1559,
+            })
+        );
+        const account = getAccount(from);
+        const {
+            nonce = 0,
+            gas = 0n,
+            maxFeePerGas = 0n,
+            maxPriorityFeePerGas = 0n,
+        } = transaction;
+
+        if (transaction.chainId !== chainId) {
+            throw new SimulatedRpcError(-32000, "invalid chain id for signer");
+        }
+        if (pool.has(hash)) {
+            throw new SimulatedRpcError(-32000, "already known");
+        }
+        if (nonce < account.nonce) {
+            throw new SimulatedRpcError(
+                -32000,
+                `nonce too low: next nonce ${account.nonce}, tx nonce ${nonce}`
+            );
+        }
+        if (maxPriorityFeePerGas > maxFeePerGas) {
+            throw new SimulatedRpcError(
+                -32000,
+                "max priority fee per gas higher than max fee per gas"
+            );
+        }
+        if (maxFeePerGas < blockBaseFee()) {
+            throw new SimulatedRpcError(
+                -32000,
+                "max fee per gas less than block base fee"
+            );
+        }
+        if (gas > BLOCK_GAS_LIMIT) {
+            throw new SimulatedRpcError(-32000, "exceeds block gas limit");
+        }
+        if (gas * maxFeePerGas + (transaction.value ?? 0n) > account.balance) {
+            throw new SimulatedRpcError(
+                -32000,
+                "insufficient funds for gas * price + value"
+            );
+        }
+
+        // A second transaction on a nonce must outbid the first by 10%.
+        const existing = [...pool.values()].find(
+            (tx) => tx.from === from && tx.transaction.nonce === nonce
+        );
+        if (existing) {
+            const bumped = (fee: bigint) => (fee * 110n) / 100n;
+            if (
+                maxFeePerGas < bumped(existing.transaction.maxFeePerGas!) ||
+                maxPriorityFeePerGas <
+                    bumped(existing.transaction.maxPriorityFeePerGas!)
+            ) {
+                throw new SimulatedRpcError(
+                    -32000,
+                    "replacement transaction underpriced"
+                );
+            }
+            pool.delete(existing.hash);
+        }
+
+        let fault = takeFault(
+            (fault) => fault.type === "drop" || fault.type === "revert"
+        );
+        if (!fault && random() < dropRate) {
+            fault = { type: "drop" };
+        } else if (!fault && transaction.to && random() < revertRate) {
+            fault = { type: "revert" };
+        }
+
+        if (fault?.type === "drop") {
+            dropped.add(hash);
+            return hash;
+        }
+        pool.set(hash, {
+            hash,
+            from,
+            serialized,
+            transaction: transaction as TransactionSerializableEIP1559,
+            fault,
+        });
+        return hash;
+    }
+
+    function findMined(hash: Hex) {
+        for (const block of blocks) {
+            const index = block.transactions.findIndex(
+                ({ tx }) => tx.hash === hash
+            );
+            if (index !== -1) {
+                return { block, index, ...block.transactions[index] };
+            }
+        }
+        return undefined;
+    }
+
+    function formatTransaction(
+        tx: SimulatedTransaction,
+        mined?: { block: SimulatedBlock; index: number }
+    ) {
+        const { transaction } = tx;
+        const signature = parseTransaction(tx.serialized);
+        return {
+            hash: tx.hash,
+            type: "0x2",
+            chainId: numberToHex(chainId),
+            from: tx.from,
+            to: transaction.to ?? null,
+            nonce: numberToHex(transaction.nonce ?? 0),
+            gas: numberToHex(transaction.gas ?? 0n),
+            maxFeePerGas: numberToHex(transaction.maxFeePerGas ?? 0n),
+            maxPriorityFeePerGas: numberToHex(
+                transaction.maxPriorityFeePerGas ?? 0n
+            ),
+            value: numberToHex(transaction.value ?? 0n),
+            input: transaction.data ?? "0x",
+            accessList: [],
+            r: signature.r,
+            s: signature.s,
+            yParity: numberToHex(signature.yParity ?? 0),
+            v: numberToHex(signature.yParity ?? 0),
+            blockHash: mined?.block.hash ?? null,
+            blockNumber: mined ? numberToHex(mined.block.number) : null,
+            transactionIndex: mined ? numberToHex(mined.index) : null,
+        };
+    }
+
+    function formatLogs(
+        block: SimulatedBlock,
+        index: number,
+        logs: SimulatedLog[]
+    ) {
+        return logs.map((log) => ({
+            ...log,
+            logIndex: numberToHex(log.logIndex),
+            blockHash: block.hash,
+            blockNumber: numberToHex(block.number),
+            transactionHash: block.transactions[index].tx.hash,
+            transactionIndex: numberToHex(index),
+            removed: false,
+        }));
+    }
+
+    function formatBlock(block: SimulatedBlock) {
+        return {
+            number: numberToHex(block.number),
+            hash: block.hash,
+            parentHash: blocks[block.number - 1]?.hash ?? zeroHash,
+            timestamp: numberToHex(block.timestamp),
+            baseFeePerGas: numberToHex(block.baseFeePerGas),
+            gasLimit: numberToHex(BLOCK_GAS_LIMIT),
+            gasUsed: numberToHex(block.gasUsed),
+            miner: "0x0000000000000000000000000000000000000000",
+            difficulty: "0x0",
+            totalDifficulty: "0x0",
+            extraData: "0x",
+            logsBloom: `0x${"0".repeat(512)}`,
+            nonce: "0x0000000000000000",
+            mixHash: zeroHash,
+            sha3Uncles: zeroHash,
+            stateRoot: zeroHash,
+            receiptsRoot: zeroHash,
+            transactionsRoot: zeroHash,
+            size: "0x0",
+            uncles: [],
+            transactions: block.transactions.map(({ tx }) => tx.hash),
+        };
+    }
+
+    function getBlock(tag: unknown): SimulatedBlock | undefined {
+        if (
+            tag === "latest" ||
+            tag === "pending" ||
+            tag === "safe" ||
+            tag === "finalized"
+        ) {
+            return latestBlock();
+        }
+        if (tag === "earliest") {
+            return blocks[0];
+        }
+        return blocks[Number(hexToBigInt(tag as Hex))];
+    }
+
+    function toBlockNumber(tag: unknown, fallback: number): number {
+        if (tag === undefined) {
+            return fallback;
+        }
+        return getBlock(tag)?.number ?? Number(hexToBigInt(tag as Hex));
+    }
+
+    function pendingNonce(address: Address): number {
+        let nonce = getAccount(address).nonce;
+        const nonces = new Set(
+            [...pool.values()]
+                .filter((tx) => tx.from === normalize(address))
+                .map((tx) => tx.transaction.nonce)
+        );
+        while (nonces.has(nonce)) {
+            nonce += 1;
+        }
+        return nonce;
+    }
+
+    // Runs `call` with every pool transaction applied first, as nodes do for
+    // the `pending` block tag. The state is put back afterwards.
+    function withPending<T>(tag: unknown, call: () => T): T {
+        if (tag !== "pending") {
+            return call();
+        }
+        const saved = [...games].map(
+            ([id, game]) => [id, { ...game }] as const
+        );
+        try {
+            const pending = [...pool.values()].sort(
+                (a, b) => a.transaction.nonce! - b.transaction.nonce!
+            );
+            for (const { from, transaction } of pending) {
+                const execution = execute(
+                    from,
+                    transaction.to ?? undefined,
+                    transaction.data
+                );
+                if (
+                    execution.revert === undefined &&
+                    execution.gasUsed <= transaction.gas!
+                ) {
+                    execution.apply();
+                }
+            }
+            return call();
+        } finally {
+            games.clear();
+            saved.forEach(([id, game]) => games.set(id, game));
+        }
+    }
+
+    // Fills in what a wallet would before signing for the chain's account.
+    async function signTransaction(request: RpcCallRequest): Promise<Hex> {
+        const from = normalize(request.from ?? signer.address);
+        if (from !== normalize(signer.address)) {
+            throw new SimulatedRpcError(
+                -32000,
+                `unknown account ${request.from}`
+            );
+        }
+        const execution = execute(
+            from,
+            request.to,
+            request.data ?? request.input
+        );
+        const baseFee = blockBaseFee();
+        return signer.signTransaction({
+            type: "eip1559",
+            chainId,
+            to: request.to,
+            data: request.data ?? request.input,
+            value: request.value ? hexToBigInt(request.value) : 0n,
+            nonce: request.nonce
+                ? Number(hexToBigInt(request.nonce))
+                : pendingNonce(from),
+            gas: request.gas
+                ? hexToBigInt(request.gas)
+                : (execution.gasUsed * 120n) / 100n,
+            maxFeePerGas: request.maxFeePerGas
+                ? hexToBigInt(request.maxFeePerGas)
+                : baseFee * 2n + priorityFeePerGas,
+            maxPriorityFeePerGas: request.maxPriorityFeePerGas
+                ? hexToBigInt(request.maxPriorityFeePerGas)
+                : priorityFeePerGas,
+        });
+    }
+
+    // Handlers by method. Params arrive unchecked, as from any client.
+    const methods: Record<string, (params: unknown[]) => unknown> = {
+        eth_chainId: () => numberToHex(chainId),
+        net_version: () => String(chainId),
+        eth_accounts: () => [signer.address],
+        eth_requestAccounts: () => [signer.address],
+        eth_blockNumber: () => numberToHex(latestBlock().number),
+        eth_getBalance: ([address]) =>
+            numberToHex(getAccount(address as Address).balance),
+        eth_getTransactionCount: ([address, tag]) =>
+            numberToHex(
+                tag === "pending"
+                    ? pendingNonce(address as Address)
+                    : getAccount(address as Address).nonce
+            ),
+        eth_getBlockByNumber: ([tag]) => {
+            const block = getBlock(tag);
+            return block ? formatBlock(block) : null;
+        },
+        eth_gasPrice: () => numberToHex(blockBaseFee() + priorityFeePerGas),
+        eth_maxPriorityFeePerGas: () => numberToHex(priorityFeePerGas),
+        eth_feeHistory: ([blockCount, newest, percentiles = []]) => {
+            const newestNumber = toBlockNumber(newest, latestBlock().number);
+            const count = Math.min(Number(blockCount), newestNumber + 1);
+            const range = blocks.slice(
+                newestNumber - count + 1,
+                newestNumber + 1
+            );
+            return {
+                oldestBlock: numberToHex(range[0].number),
+                baseFeePerGas: [
+                    ...range.map((block) => numberToHex(block.baseFeePerGas)),
+                    numberToHex(blockBaseFee()),
+                ],
+                gasUsedRatio: range.map(
+                    (block) => Number(block.gasUsed) / Number(BLOCK_GAS_LIMIT)
+                ),
+                reward: range.map((block) => {
+                    const tips = block.transactions
+                        .map(
+                            ({ receipt }) =>
+                                receipt.effectiveGasPrice - block.baseFeePerGas
+                        )
+                        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+                    return (percentiles as number[]).map((percentile) =>
+                        numberToHex(
+                            tips.length
+                                ? tips[
+                                      Math.min(
+                                          tips.length - 1,
+                                          Math.floor(
+                                              (percentile / 100) * tips.length
+                                          )
+                                      )
+                                  ]
+                                : priorityFeePerGas
+                        )
+                    );
+                }),
+            };
+        },
+        eth_estimateGas: ([params, tag]) => {
+            const call = params as RpcCallRequest;
+            const execution = withPending(tag, () =>
+                execute(
+                    call.from ?? signer.address,
+                    call.to,
+                    call.data ?? call.input
+                )
+            );
+            if (execution.revert !== undefined) {
+                throw new SimulatedRpcError(
+                    3,
+                    "execution reverted",
+                    execution.revert
+                );
+            }
+            return numberToHex(execution.gasUsed);
+        },
+        eth_call: ([params, tag]) => {
+            const call = params as RpcCallRequest;
+            const data: Hex = call.data ?? call.input ?? "0x";
+            if (call.to && normalize(call.to) === normalize(contractAddress)) {
+                const decoded = decodeMega2048Call(data);
+                if (decoded.functionName === "getBoard") {
+                    const gameId = decoded.args[0];
+                    return withPending(tag, () => readBoard(gameId));
+                }
+            }
+            const execution = withPending(tag, () =>
+                execute(call.from ?? signer.address, call.to, data)
+            );
+            if (execution.revert !== undefined) {
+                throw new SimulatedRpcError(
+                    3,
+                    "execution reverted",
+                    execution.revert
+                );
+            }
+            return "0x";
+        },
+        eth_sendRawTransaction: ([serialized]) =>
+            sendRawTransaction(serialized as Hex),
+        eth_signTransaction: ([request]) =>
+            signTransaction(request as RpcCallRequest),
+        eth_sendTransaction: async ([request]) =>
+            sendRawTransaction(
+                await signTransaction(request as RpcCallRequest)
+            ),
+        eth_getTransactionByHash: ([hash]) => {
+            const mined = findMined(hash as Hex);
+            if (mined) {
+                return formatTransaction(mined.tx, mined);
+            }
+            const pending = pool.get(hash as Hex);
+            return pending ? formatTransaction(pending) : null;
+        },
+        eth_getTransactionReceipt: ([hash]) => {
+            const mined = findMined(hash as Hex);
+            if (!mined) {
+                return null;
+            }
+            const { block, index, tx, receipt } = mined;
+            const cumulativeGasUsed = block.transactions
+                .slice(0, index + 1)
+                .reduce((total, { receipt }) => total + receipt.gasUsed, 0n);
+            return {
+                transactionHash: tx.hash,
+                transactionIndex: numberToHex(index),
+                blockHash: block.hash,
+                blockNumber: numberToHex(block.number),
+                from: tx.from,
+                to: tx.transaction.to ?? null,
+                cumulativeGasUsed: numberToHex(cumulativeGasUsed),
+                gasUsed: numberToHex(receipt.gasUsed),
+                effectiveGasPrice: numberToHex(receipt.effectiveGasPrice),
+                contractAddress: null,
+                logs: formatLogs(block, index, receipt.logs),
+                logsBloom: `0x${"0".repeat(512)}`,
+                status: receipt.status === "success" ? "0x1" : "0x0",
+                type: "0x2",
+            };
+        },
+        eth_getLogs: ([params]) => {
+            const filter = params as RpcLogFilter;
+            const from = toBlockNumber(filter.fromBlock, latestBlock().number);
+            const to = toBlockNumber(filter.toBlock, latestBlock().number);
+            const addresses = [filter.address ?? []].flat().map(normalize);
+            const topics = filter.topics ?? [];
+            const matches = (log: SimulatedLog) =>
+                (!addresses.length ||
+                    addresses.includes(normalize(log.address))) &&
+                topics.every(
+                    (topic, i) =>
+                        topic === null ||
+                        [topic]
+                            .flat()
+                            .some(
+                                (t) =>
+                                    t.toLowerCase() ===
+                                    log.topics[i]?.toLowerCase()
+                            )
+                );
+
+            return blocks
+                .slice(from, to + 1)
+                .flatMap((block) =>
+                    block.transactions.flatMap(({ receipt }, index) =>
+                        formatLogs(block, index, receipt.logs.filter(matches))
+                    )
+                );
+        },
+    };
+
+    // EIP-1193 `request`, so the chain can back a viem `custom` transport.
+    async function request({
+        method,
+        params = [],
+    }: {
+        method: string;
+        params?: unknown;
+    }): Promise<unknown> {
+        const delay =
+            typeof latencyMs === "number"
+                ? latencyMs
+                : latencyMs.min + random() * (latencyMs.max - latencyMs.min);
+        if (delay > 0) {
+            await sleep(delay);
+        }
+
+        const fault = takeFault(
+            (fault) =>
+                (fault.type === "rpcError" || fault.type === "timeout") &&
+                (!fault.method || fault.method === method)
+        );
+        if (fault?.type === "timeout") {
+            return new Promise(() => {});
+        }
+        if (fault?.type === "rpcError") {
+            throw new SimulatedRpcError(fault.code ?? -32000, fault.message);
+        }
+
+        const handler = methods[method];
+        if (!handler) {
+            throw new SimulatedRpcError(
+                -32601,
+                `the method ${method} does not exist/is not available`
+            );
+        }
+        const result = await handler(Array.isArray(params) ? params : []);
+        // Without a block timer, every transaction is mined at once.
+        if (
+            method === "eth_sendRawTransaction" ||
+            method === "eth_sendTransaction"
+        ) {
+            if (blockTimeMs === 0 && !blockTimer) {
+                mine();
+            }
+        }
+        return result;
+    }
+
+    function start() {
+        if (blockTimer || blockTimeMs <= 0) {
+            return;
+        }
+        blockTimer = setInterval(mine, blockTimeMs);
+    }
+
+    function stop() {
+        if (blockTimer) {
+            clearInterval(blockTimer);
+            blockTimer = null;
+        }
+    }
+
+    // Genesis block and the funded account.
+    blocks.push({
+        number: 0,
+        hash: keccak256(numberToHex(0, { size: 32 })),
+        timestamp: Math.floor(Date.now() / 1000),
+        baseFeePerGas,
+        gasUsed: 0n,
+        transactions: [],
+    });
+    getAccount(signer.address).balance = initialBalance;
+
+    return {
+        request,
+        // Plugs the chain into an RPC pool in place of a URL.
+        endpoint: {
+            url: "simulated://mega2048",
+            priority: 0,
+            request,
+        } as RpcEndpoint,
+        address: signer.address,
+        start,
+        stop,
+        mine,
+        // Queues a failure for the next transaction or request it matches.
+        inject: (fault: SimulatedFault) => {
+            faults.push(fault);
+        },
+        // Multiplies the base fee for the next `blocks` blocks.
+        spikeFees: (multiplier: bigint, blocks: number) => {
+            spike = { multiplier, blocks };
+        },
+        setBaseFee: (fee: bigint) => {
+            currentBaseFee = fee;
+        },
+        setBalance: (address: Address, balance: bigint) => {
+            getAccount(address).balance = balance;
+        },
+        getGame: (gameId: Hex) => {
+            const game = games.get(gameId);
+            return game ? { ...game } : undefined;
+        },
+        // Hashes accepted but never mined.
+        dropped: () => [...dropped],
+        pending: () => [...pool.keys()],
+    };
+}
@@ -0,0 +1,233 @@
+import { Hex } from "viem";
+
+export type TransactionOutcome =
+    | "confirmed"
+    | "reverted"
+    | "replaced"
+    | "timeout"
+    | "failed";
+
+// Phase boundaries of a transaction, as `Date.now()` timestamps.
+export type TransactionMarks = {
+    started: number;
+    estimated?: number;
+    signed?: number;
+    broadcast?: number;
+    firstSeen?: number;
+    settled?: number;
+};
+
+export type TransactionEvent = {
+    id: number;
+    functionName: string;
+    hash?: Hex;
+    nonce?: number;
+    marks: TransactionMarks;
+    gasEstimated?: bigint;
+    gasUsed?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    effectiveGasPrice?: bigint;
+    feeStrategy?: string;
+    endpoint?: string;
+    outcome?: TransactionOutcome;
+    error?: string;
+};
+
+export type LatencyMetric =
+    | "estimate"
+    | "sign"
+    | "broadcast"
+    | "firstSeen"
+    | "confirm"
+    | "total";
+
+export type LatencySummary = {
+    count: number;
+    p50: number;
+    p90: number;
+    p99: number;
+};
+
+// Durations in ms of each metric, or undefined while a phase is missing.
+export function getLatencies(
+    marks: TransactionMarks
+): Partial<Record<LatencyMetric, number>> {
+    const between = (from?: number, to?: number) =>
+        from !== undefined && to !== undefined ? to - from : undefined;
+
+    return {
+        estimate: between(marks.started, marks.estimated),
+        sign: between(marks.estimated, marks.signed),
+        broadcast: between(marks.signed, marks.broadcast),
+        firstSeen: between(marks.broadcast, marks.firstSeen),
+        confirm: between(marks.broadcast, marks.settled),
+        total: between(marks.started, marks.settled),
+    };
+}
+
+function percentile(sorted: number[], p: number): number {
+    const index = Math.min(
+        sorted.length - 1,
+        Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)
+    );
+    return sorted[index];
+}
+
+export type TransactionRecorder = ReturnType<
+    ReturnType<typeof createTelemetry>["begin"]
+>;
+
+export type Telemetry = ReturnType<typeof createTelemetry>;
+
+// Records one structured event per transaction and keeps rolling latency
+// percentiles per contract function.
+export function createTelemetry({
+    maxEvents = 1_000,
+    windowSize = 200,
+}: {
+    // Events kept for export.
+    maxEvents?: number;
+    // Samples per function the percentiles are computed over.
+    windowSize?: number;
+} = {}) {
+    const events: TransactionEvent[] = [];
+    const windows = new Map<string, Map<LatencyMetric, number[]>>();
+    const listeners = new Set<(event: TransactionEvent) => void>();
+    const sessionStartedAt = Date.now();
+    let nextId = 0;
+
+    function notify(event: TransactionEvent) {
+        listeners.forEach((listener) => listener({ ...event }));
+    }
+
+    function addSamples(event: TransactionEvent) {
+        let window = windows.get(event.functionName);
+        if (!window) {
+            window = new Map();
+            windows.set(event.functionName, window);
+        }
+        const latencies = getLatencies(event.marks);
+        for (const metric of Object.keys(latencies) as LatencyMetric[]) {
+            const latency = latencies[metric];
+            if (latency === undefined) {
+                continue;
+            }
+            const samples = window.get(metric) ?? [];
+            samples.push(latency);
+            window.set(metric, samples.slice(-windowSize));
+        }
+    }
+
+    // Starts an event for a transaction of `functionName`.
+    function begin(functionName: string, fields: Partial<TransactionEvent> = {}) {
+        const event: TransactionEvent = {
+            ...fields,
+            id: nextId++,
+            functionName,
+            marks: { started: Date.now() },
+        };
+        events.push(event);
+        if (events.length > maxEvents) {
+            events.shift();
+        }
+
+        return {
+            mark(phase: Exclude<keyof TransactionMarks, "started">) {
+                if (event.marks[phase] === undefined) {
+                    event.marks[phase] = Date.now();
+                    notify(event);
+                }
+            },
+            set(update: Partial<Omit<TransactionEvent, "id" | "marks">>) {
+                Object.assign(event, update);
+                notify(event);
+            },
+            finish(outcome: TransactionOutcome, error?: Error) {
+                if (event.outcome) {
+                    return;
+                }
+                event.marks.settled = Date.now();
+                event.outcome = outcome;
+                event.error = error?.message;
+                addSamples(event);
+                notify(event);
+            },
+            finished: () => event.outcome !== undefined,
+        };
+    }
+
+    // Rolling latency percentiles of one function.
+    function summarize(
+        functionName: string
+    ): Partial<Record<LatencyMetric, LatencySummary>> {
+        const summary: Partial<Record<LatencyMetric, LatencySummary>> = {};
+        for (const [metric, samples] of windows.get(functionName) ?? []) {
+            const sorted = [...samples].sort((a, b) => a - b);
+            summary[metric] = {
+                count: sorted.length,
+                p50: percentile(sorted, 50),
+                p90: percentile(sorted, 90),
+                p99: percentile(sorted, 99),
+            };
+        }
+        return summary;
+    }
+
+    // Share of finished transactions of `functionName` that confirmed.
+    function successRate(functionName: string): number | undefined {
+        const finished = events.filter(
+            (event) => event.functionName === functionName && event.outcome
+        );
+        if (!finished.length) {
+            return undefined;
+        }
+        return (
+            finished.filter((event) => event.outcome === "confirmed").length /
+            finished.length
+        );
+    }
+
+    // Serializes the session, e.g. to compare fee strategies offline.
+    function exportSession(): string {
+        const functionNames = [...windows.keys()];
+        return JSON.stringify(
+            {
+                version: 1,
+                sessionStartedAt,
+                exportedAt: Date.now(),
+                summary: Object.fromEntries(
+                    functionNames.map((name) => [
+                        name,
+                        {
+                            latency: summarize(name),
+                            successRate: successRate(name),
+                        },
+                    ])
+                ),
+                events: events.map((event) => ({
+                    ...event,
+                    latency: getLatencies(event.marks),
+                })),
+            },
+            (_, value) => (typeof value === "bigint" ? value.toString() : value),
+            2
+        );
+    }
+
+    function subscribe(listener: (event: TransactionEvent) => void) {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    return {
+        begin,
+        summarize,
+        successRate,
+        exportSession,
+        subscribe,
+        events: () => events.map((event) => ({ ...event })),
+    };
+}
@@ -0,0 +1,154 @@
+import { Hex, TransactionReceipt } from "viem";
+import { ConfirmationTracker } from "./confirmationTracker";
+
+// Nodes reject a same-nonce replacement unless both fees rise by at least 10%.
+export const MIN_REPLACEMENT_BUMP_PERCENT = 10n;
+
+export type ReplaceableTransaction = {
+    nonce: number;
+    to: Hex;
+    data: Hex;
+    value: bigint;
+    gas: bigint;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+};
+
+export type ReplacementKind = "original" | "speedUp" | "cancel";
+
+type ReplacementGroup = {
+    nonce: number;
+    // Every hash broadcast for this nonce, oldest first.
+    hashes: Hex[];
+    kinds: Map<Hex, ReplacementKind>;
+    transactions: Map<Hex, ReplaceableTransaction>;
+    settled?: Hex;
+};
+
+export type ReplacementOutcome = {
+    receipt: TransactionReceipt;
+    // Hash the caller originally waited for.
+    originalHash: Hex;
+    // Hash that actually landed.
+    hash: Hex;
+    kind: ReplacementKind;
+};
+
+export class TransactionReplacedError extends Error {
+    constructor(
+        public readonly originalHash: Hex,
+        public readonly replacementHash: Hex
+    ) {
+        super(
+            `Transaction ${originalHash} was cancelled by ${replacementHash}.`
+        );
+        this.name = "TransactionReplacedError";
+    }
+}
+
+// Raises both fees by `percent`, rounding up so the node's minimum is met.
+export function bumpFees(
+    {
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+    }: Pick<ReplaceableTransaction, "maxFeePerGas" | "maxPriorityFeePerGas">,
+    percent: bigint = MIN_REPLACEMENT_BUMP_PERCENT
+) {
+    const bump = (fee: bigint) => (fee * (100n + percent) + 99n) / 100n;
+    return {
+        maxFeePerGas: bump(maxFeePerGas),
+        maxPriorityFeePerGas: bump(maxPriorityFeePerGas),
+    };
+}
+
+export type ReplacementTracker = ReturnType<typeof createReplacementTracker>;
+
+// Remembers what was signed for each hash so it can be re-signed on the same
+// nonce, and which hashes compete for that nonce.
+export function createReplacementTracker() {
+    const groups = new Map<Hex, ReplacementGroup>();
+
+    function track(hash: Hex, transaction: ReplaceableTransaction) {
+        groups.set(hash, {
+            nonce: transaction.nonce,
+            hashes: [hash],
+            kinds: new Map([[hash, "original"]]),
+            transactions: new Map([[hash, transaction]]),
+        });
+    }
+
+    function replace(
+        hash: Hex,
+        replacementHash: Hex,
+        kind: Exclude<ReplacementKind, "original">,
+        transaction: ReplaceableTransaction
+    ) {
+        const group = groups.get(hash);
+        if (!group) {
+            throw Error(`Unknown transaction: ${hash}`);
+        }
+        group.hashes.push(replacementHash);
+        group.kinds.set(replacementHash, kind);
+        group.transactions.set(replacementHash, transaction);
+        groups.set(replacementHash, group);
+    }
+
+    // Most recent transaction broadcast for the nonce of `hash`.
+    function latest(hash: Hex) {
+        const group = groups.get(hash);
+        if (!group) {
+            return undefined;
+        }
+        const latestHash = group.hashes[group.hashes.length - 1];
+        return {
+            hash: latestHash,
+            kind: group.kinds.get(latestHash)!,
+            settled: group.settled,
+            transaction: group.transactions.get(latestHash)!,
+        };
+    }
+
+    // Waits until any hash sharing the nonce of `hash` is mined.
+    async function waitForReceipt(
+        confirmations: ConfirmationTracker,
+        hash: Hex,
+        options?: { timeoutMs?: number }
+    ): Promise<ReplacementOutcome> {
+        const group = groups.get(hash);
+        if (!group) {
+            throw Error(`Unknown transaction: ${hash}`);
+        }
+
+        const { hash: landed, receipt } = await confirmations.wait(
+            () => [...group.hashes],
+            options
+        );
+        group.settled = landed;
+        return {
+            receipt,
+            originalHash: hash,
+            hash: landed,
+            kind: group.kinds.get(landed)!,
+        };
+    }
+
+    function forget(hash: Hex) {
+        const group = groups.get(hash);
+        for (const member of group?.hashes ?? []) {
+            groups.delete(member);
+        }
+    }
+
+    // Original hashes of every nonce still waiting for a receipt.
+    function pending(): Hex[] {
+        const originals = new Set<Hex>();
+        for (const group of groups.values()) {
+            if (!group.settled) {
+                originals.add(group.hashes[0]);
+            }
+        }
+        return [...originals];
+    }
+
+    return { track, replace, latest, waitForReceipt, forget, pending };
+}
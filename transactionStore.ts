@@ -0,0 +1,105 @@
+import { Hex } from "viem";
+
+export type TransactionStatus =
+    | "pending"
+    | "broadcast"
+    | "confirmed"
+    | "failed"
+    | "replaced"
+    | "timeout";
+
+// What the player sees of one transaction, across retries and speed-ups.
+export type TransactionSummary = {
+    id: number;
+    label: string;
+    // Player-facing text, e.g. "Played move 12".
+    description?: string;
+    gameId?: Hex;
+    moveNumber?: number;
+    status: TransactionStatus;
+    // Latest hash; a speed-up or cancellation replaces it.
+    hash?: Hex;
+    startedAt: number;
+    broadcastAt?: number;
+    settledAt?: number;
+    // `gasUsed * effectiveGasPrice` once mined.
+    gasCost?: bigint;
+    error?: string;
+};
+
+const SETTLED: TransactionStatus[] = ["confirmed", "failed", "replaced"];
+
+// Time from the first attempt until it settled, or undefined while pending.
+export function getLatency(summary: TransactionSummary): number | undefined {
+    return summary.settledAt !== undefined
+        ? summary.settledAt - summary.startedAt
+        : undefined;
+}
+
+export type TransactionStore = ReturnType<typeof createTransactionStore>;
+
+// Observable list of the session's transactions. Snapshots are immutable, so
+// it can back `useSyncExternalStore`.
+export function createTransactionStore({
+    maxEntries = 500,
+}: {
+    maxEntries?: number;
+} = {}) {
+    let entries: readonly TransactionSummary[] = [];
+    const listeners = new Set<(changed: TransactionSummary) => void>();
+    let nextId = 0;
+
+    function commit(entry: TransactionSummary) {
+        const index = entries.findIndex(({ id }) => id === entry.id);
+        entries =
+            index === -1
+                ? [...entries, entry].slice(-maxEntries)
+                : entries.map((existing, i) => (i === index ? entry : existing));
+        listeners.forEach((listener) => listener(entry));
+    }
+
+    function begin(
+        fields: Pick<
+            TransactionSummary,
+            "label" | "description" | "gameId" | "moveNumber"
+        >
+    ): number {
+        const id = nextId++;
+        commit({ ...fields, id, status: "pending", startedAt: Date.now() });
+        return id;
+    }
+
+    // Moves a transaction to its next status; timestamps are filled in.
+    function update(
+        id: number,
+        patch: Partial<Omit<TransactionSummary, "id" | "startedAt">>
+    ) {
+        const entry = entries.find((existing) => existing.id === id);
+        if (!entry) {
+            return;
+        }
+        const next = { ...entry, ...patch };
+        if (patch.status === "broadcast" && entry.broadcastAt === undefined) {
+            next.broadcastAt = Date.now();
+        }
+        if (patch.status && SETTLED.includes(patch.status)) {
+            next.settledAt = Date.now();
+        }
+        commit(next);
+    }
+
+    function subscribe(listener: (changed: TransactionSummary) => void) {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    return {
+        begin,
+        update,
+        get: (id: number) => entries.find((entry) => entry.id === id),
+        getSnapshot: () => entries,
+        subscribe,
+    };
+}
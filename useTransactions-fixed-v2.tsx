@@ -1,114 +1,171 @@
-import { useCallback } from 'react';
-import { useWriteContract, useWaitForTransactionReceipt, usePublicClient } from 'wagmi';
-import { formatEther, parseEther } from 'viem';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  useAccount,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+  usePublicClient,
+  useWalletClient
+} from 'wagmi';
+import {
+  DEFAULT_FEE_STRATEGIES,
+  estimateFees,
+  FALLBACK_FEES,
+  FeeOptions,
+  FunctionFeeStrategies,
+  resolveFees,
+} from './feeStrategy';
+import { createGasLimitCache, getGasLimitKey, isOutOfGas } from './gasLimitCache';
+import { emptyCells, unpackBoard } from './boardEngine';
+import { MEGAETH_TESTNET, NetworkProfile } from './networkProfiles';
+import { WrongChainError } from './rpcErrors';
+import { preflightCall } from './preflight';
+import { createSessionKeys, openSessionKeyStore, SessionKey } from './sessionKey';
+import {
+  encodePlay,
+  encodeStartGame,
+  GameBoards,
+  GameMoves,
+  playCall,
+  startGameCall,
+} from './mega2048Contract';
 
-export const useTransactions = (gameContractAddress: `0x${string}`) => {
+type UseTransactionsOptions = {
+  // Contract to play on; sends are refused while the wallet is on another chain
+  network?: NetworkProfile;
+  feeStrategies?: Partial<FunctionFeeStrategies>;
+  // Added on top of the gas a function was seen to use
+  gasHeadroomPercent?: bigint;
+  // Simulate each call against the pending state and refuse the ones that would revert
+  preflight?: boolean;
+  // Sign moves with a funded burner key instead of prompting the wallet
+  sessionKey?: { allowance: bigint; ttlMs?: number };
+};
+
+// Called as `useTransactions(options)`. The positional contract address is
+// deprecated: it still overrides the one of `network` for existing callers.
+export const useTransactions = (
+  gameContractAddressOrOptions?: `0x${string}` | UseTransactionsOptions,
+  positionalOptions: UseTransactionsOptions = {}
+) => {
+  const [contractAddressOverride, options] =
+    typeof gameContractAddressOrOptions === 'string'
+      ? [gameContractAddressOrOptions, positionalOptions]
+      : [undefined, gameContractAddressOrOptions ?? positionalOptions];
+  const {
+    network = MEGAETH_TESTNET,
+    feeStrategies,
+    gasHeadroomPercent = 25n,
+    preflight: preflightByDefault = false,
+    sessionKey
+  } = options;
   const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { chainId: walletChainId } = useAccount();
+  const gameContractAddress = contractAddressOverride ?? network.contractAddress;
+  const strategies = { ...DEFAULT_FEE_STRATEGIES, ...network.feeStrategies, ...feeStrategies };
+
+  const assertWalletChain = useCallback(() => {
+    if (walletChainId !== undefined && walletChainId !== network.chain.id) {
+      throw new WrongChainError(walletChainId, network.chain.id);
+    }
+  }, [network, walletChainId]);
+  // Learned gas limits, so moves don't wait on eth_estimateGas
+  const gasLimits = useMemo(
+    () => createGasLimitCache({ headroomPercent: gasHeadroomPercent }),
+    [gasHeadroomPercent]
+  );
+  // Cache key and limit of the last submitted transaction
+  const lastGas = useRef<{ key: string; gasLimit: bigint } | null>(null);
   const { 
     writeContract, 
-    data: hash, 
+    data: writeHash, 
     isPending: isWritePending, 
     error: writeError 
   } = useWriteContract();
+
+  // Burner keys, and the one signing for the current session if any
+  const sessionKeys = useMemo(
+    () => publicClient && sessionKey
+      ? createSessionKeys({
+          client: publicClient,
+          store: openSessionKeyStore(),
+          ttlMs: sessionKey.ttlMs
+        })
+      : null,
+    [publicClient, sessionKey?.allowance, sessionKey?.ttlMs]
+  );
+  const [session, setSession] = useState<SessionKey | null>(null);
+  const [sessionHash, setSessionHash] = useState<`0x${string}`>();
+  const hash = session ? sessionHash : writeHash;
   
   const { 
+    data: receipt,
     isLoading: isConfirming, 
     isSuccess: isConfirmed, 
     error: receiptError 
   } = useWaitForTransactionReceipt({ hash });
 
+  // Refine the cache from receipts; running out of gas forces a new estimate
+  useEffect(() => {
+    if (!receipt || !lastGas.current) return;
+    const { key, gasLimit } = lastGas.current;
+    if (receipt.status === 'reverted' && isOutOfGas(receipt.gasUsed, gasLimit)) {
+      gasLimits.invalidate(key);
+    } else if (receipt.status === 'success') {
+      gasLimits.observe(key, receipt.gasUsed);
+    }
+    lastGas.current = null;
+  }, [receipt, gasLimits]);
+
   // Enhanced gas estimation with proper EIP-1559 pricing
   const getOptimizedGasConfig = useCallback(async (
     contractAddress: `0x${string}`,
-    functionName: string,
-    args: any[],
+    functionName: 'startGame' | 'play',
+    data: `0x${string}`,
     account: `0x${string}`,
-    value?: bigint
+    fees?: FeeOptions,
+    gasKey = getGasLimitKey(data)
   ) => {
     try {
-      console.log(`🔍 Estimating gas for ${functionName}...`);
-      
-      // Get current network gas pricing
-      let baseFeePerGas: bigint;
-      let gasPrice: bigint;
-      
-      try {
-        const block = await publicClient?.getBlock({ blockTag: 'latest' });
-        baseFeePerGas = block?.baseFeePerGas || parseEther('0.001'); // 1 gwei fallback
-        
-        // Get current gas price as additional reference
-        gasPrice = await publicClient?.getGasPrice() || parseEther('0.002'); // 2 gwei fallback
-        
-        console.log(`📊 Network conditions:`, {
-          baseFee: formatEther(baseFeePerGas),
-          gasPrice: formatEther(gasPrice)
-        });
-      } catch (error) {
-        console.warn('⚠️ Failed to get network gas info, using fallbacks');
-        baseFeePerGas = parseEther('0.001'); // 1 gwei
-        gasPrice = parseEther('0.002'); // 2 gwei
-      }
-
-      // Estimate gas limit
-      let gasLimit: bigint;
-      try {
-        const estimatedGas = await publicClient?.estimateGas({
-          account,
-          to: contractAddress,
-          data: publicClient.encodeFunctionData({
-            abi: [
-              {
-                name: functionName,
-                type: 'function',
-                inputs: functionName === 'startGame' ? [] : [{ name: 'direction', type: 'uint8' }],
-                outputs: [],
-                stateMutability: functionName === 'startGame' ? 'payable' : 'nonpayable'
-              }
-            ],
-            functionName,
-            args
-          }),
-          value: value || 0n
-        });
+      // Use the learned gas limit; estimate only when there is none
+      let gasLimit: bigint | undefined = gasLimits.get(gasKey);
+      if (gasLimit) {
+        console.log(`⛽ Cached gas limit for ${functionName}: ${gasLimit.toString()}`);
+      } else {
+        try {
+          console.log(`🔍 Estimating gas for ${functionName}...`);
+          if (!publicClient) {
+            throw new Error('Public client not available');
+          }
+          const estimatedGas = await publicClient.estimateGas({
+            account,
+            to: contractAddress,
+            data
+          });
         
-        // Add 25% buffer to estimated gas
-        gasLimit = (estimatedGas * 125n) / 100n;
-        console.log(`⛽ Gas estimation: ${estimatedGas.toString()} + buffer = ${gasLimit.toString()}`);
-      } catch (error) {
-        console.warn('⚠️ Gas estimation failed, using conservative fallback');
-        // Use conservative fallbacks based on function
-        gasLimit = functionName === 'startGame' ? 150000n : 100000n;
+          gasLimits.seed(gasKey, estimatedGas);
+          gasLimit = gasLimits.get(gasKey)!;
+          console.log(`⛽ Gas estimation: ${estimatedGas.toString()} + buffer = ${gasLimit.toString()}`);
+        } catch (error) {
+          console.warn('⚠️ Gas estimation failed, using conservative fallback');
+          // Use conservative fallbacks based on function
+          gasLimit = functionName === 'startGame' ? 150000n : 100000n;
+        }
       }
 
-      // Calculate proper EIP-1559 gas pricing
-      // Priority fee: reasonable tip for miners (0.5-2 gwei range)
-      const maxPriorityFeePerGas = baseFeePerGas < parseEther('0.001') 
-        ? parseEther('0.0005') // 0.5 gwei for low base fee
-        : parseEther('0.002');  // 2 gwei for higher base fee
-      
-      // Max fee: base fee + priority fee with buffer for fee spikes
-      // Use higher of: (baseFee * 2 + priority) or (gasPrice + priority)
-      const calculatedMaxFee = (baseFeePerGas * 2n) + maxPriorityFeePerGas;
-      const gasPriceBasedFee = gasPrice + maxPriorityFeePerGas;
-      const maxFeePerGas = calculatedMaxFee > gasPriceBasedFee ? calculatedMaxFee : gasPriceBasedFee;
+      // EIP-1559 pricing from the shared fee strategies
+      const strategy = fees?.strategy ?? strategies[functionName];
+      const { maxFeePerGas, maxPriorityFeePerGas } = publicClient
+        ? await estimateFees(publicClient, strategy, fees?.caps)
+        : resolveFees(FALLBACK_FEES, fees?.caps);
 
       console.log(`💰 Gas pricing:`, {
-        maxPriorityFee: formatEther(maxPriorityFeePerGas) + ' ETH',
-        maxFee: formatEther(maxFeePerGas) + ' ETH',
+        maxPriorityFee: maxPriorityFeePerGas.toString() + ' wei',
+        maxFee: maxFeePerGas.toString() + ' wei',
         gasLimit: gasLimit.toString()
       });
 
-      // Validation check
-      if (maxPriorityFeePerGas >= maxFeePerGas) {
-        console.warn('🚨 Invalid gas pricing detected, adjusting...');
-        const adjustedMaxFee = maxPriorityFeePerGas * 3n; // Ensure maxFee is at least 3x priority fee
-        return {
-          gas: gasLimit,
-          maxFeePerGas: adjustedMaxFee,
-          maxPriorityFeePerGas: maxPriorityFeePerGas
-        };
-      }
-
+      lastGas.current = { key: gasKey, gasLimit };
       return {
         gas: gasLimit,
         maxFeePerGas,
@@ -121,80 +178,184 @@ export const useTransactions = (gameContractAddress: `0x${string}`) => {
       // Ultra-conservative fallback that should always work
       return {
         gas: functionName === 'startGame' ? 150000n : 100000n,
-        maxFeePerGas: parseEther('0.01'), // 10 gwei
-        maxPriorityFeePerGas: parseEther('0.002') // 2 gwei
+        ...resolveFees(FALLBACK_FEES, fees?.caps)
       };
     }
-  }, [publicClient]);
+  }, [publicClient, gasLimits, strategies.startGame, strategies.play]);
+
+  // Restores or creates the burner of `account` and tops it up to the allowance.
+  // This is the only transaction the wallet is asked to approve. A stored burner
+  // is kept, so games it started stay playable, and takes the current allowance:
+  // a raised one is topped up to, a lowered one caps later top-ups.
+  const startSession = useCallback(async (account: `0x${string}`) => {
+    if (!sessionKeys || !sessionKey || !publicClient) {
+      throw new Error('Session keys are not enabled');
+    }
+    assertWalletChain();
+
+    let current = await sessionKeys.load(account);
+    if (current && sessionKeys.isExpired(current)) {
+      console.log('⌛ Session key expired, sweeping it back');
+      await sessionKeys.sweep(current);
+      current = null;
+    }
+    if (current && current.allowance !== sessionKey.allowance) {
+      console.log(`🔑 Session allowance changed to ${sessionKey.allowance.toString()} wei`);
+      current = await sessionKeys.setAllowance(current, sessionKey.allowance);
+    }
+    current ??= await sessionKeys.create(account, sessionKey.allowance);
 
-  const startGame = useCallback(async (account: `0x${string}`) => {
+    const funding = await sessionKeys.getFundingAmount(current);
+    if (funding > 0n) {
+      if (!walletClient) {
+        throw new Error('Wallet client not available');
+      }
+      console.log(`🔑 Funding session key ${current.account.address} with ${funding.toString()} wei`);
+      const fundingHash = await walletClient.sendTransaction({
+        account,
+        to: current.account.address,
+        value: funding
+      });
+      await publicClient.waitForTransactionReceipt({ hash: fundingHash });
+    }
+
+    setSession(current);
+    return current.account.address;
+  }, [sessionKeys, sessionKey?.allowance, publicClient, walletClient, assertWalletChain]);
+
+  // Sends what is left on the burner back to the wallet and forgets the key
+  const endSession = useCallback(async () => {
+    if (!sessionKeys || !session) return null;
+    const sweepHash = await sessionKeys.sweep(session);
+    console.log(`🧹 Session ended${sweepHash ? `, leftover returned in ${sweepHash}` : ''}`);
+    setSession(null);
+    setSessionHash(undefined);
+    return sweepHash;
+  }, [sessionKeys, session]);
+
+  // Signs locally with the session's burner, no wallet prompt
+  const sendWithSessionKey = useCallback(async (
+    session: SessionKey,
+    data: `0x${string}`,
+    gasConfig: { gas: bigint; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  ) => {
+    setSessionHash(await sessionKeys!.sendTransaction(session, {
+      to: gameContractAddress,
+      data,
+      ...gasConfig
+    }));
+  }, [gameContractAddress, sessionKeys]);
+
+  // Throws a PreflightRevertError with the decoded reason if the call would revert
+  const runPreflight = useCallback(async (
+    account: `0x${string}`,
+    data: `0x${string}`,
+    moveNumber?: number
+  ) => {
+    if (!publicClient) return;
+    console.log('🧪 Simulating against the pending state...');
+    await preflightCall(publicClient, {
+      from: account,
+      to: gameContractAddress,
+      data,
+      moveNumber
+    });
+  }, [publicClient, gameContractAddress]);
+
+  const startGame = useCallback(async (
+    account: `0x${string}`,
+    gameId: `0x${string}`,
+    boards: GameBoards,
+    moves: GameMoves,
+    fees?: FeeOptions,
+    preflight = preflightByDefault
+  ) => {
     try {
       console.log('🚀 Starting new game...');
+      assertWalletChain();
       
+      const data = encodeStartGame(gameId, boards, moves);
+      if (preflight) {
+        await runPreflight(session?.account.address ?? account, data);
+      }
       const gasConfig = await getOptimizedGasConfig(
         gameContractAddress,
         'startGame',
-        [],
-        account,
-        parseEther('0.001') // 0.001 ETH entry fee
+        data,
+        session?.account.address ?? account,
+        fees
       );
 
-      await writeContract({
-        address: gameContractAddress,
-        abi: [{
-          name: 'startGame',
-          type: 'function',
-          inputs: [],
-          outputs: [],
-          stateMutability: 'payable'
-        }],
-        functionName: 'startGame',
-        value: parseEther('0.001'),
-        ...gasConfig
-      });
+      if (session) {
+        await sendWithSessionKey(session, data, gasConfig);
+      } else {
+        await writeContract({
+          address: gameContractAddress,
+          ...startGameCall(gameId, boards, moves),
+          ...gasConfig
+        });
+      }
 
       console.log('✅ Game start transaction submitted');
     } catch (error) {
       console.error('❌ Start game failed:', error);
       throw error;
     }
-  }, [gameContractAddress, getOptimizedGasConfig, writeContract]);
+  }, [gameContractAddress, session, preflightByDefault, assertWalletChain, runPreflight, getOptimizedGasConfig, sendWithSessionKey, writeContract]);
 
-  const playMove = useCallback(async (direction: number, account: `0x${string}`) => {
+  const playMove = useCallback(async (
+    gameId: `0x${string}`,
+    direction: number,
+    resultBoard: bigint,
+    account: `0x${string}`,
+    fees?: FeeOptions,
+    // Skip for latency-sensitive moves
+    preflight = preflightByDefault,
+    moveNumber?: number
+  ) => {
     try {
       console.log(`🎮 Playing move: ${direction}`);
+      assertWalletChain();
       
+      const data = encodePlay(gameId, direction, resultBoard);
+      if (preflight) {
+        await runPreflight(session?.account.address ?? account, data, moveNumber);
+      }
       const gasConfig = await getOptimizedGasConfig(
         gameContractAddress,
         'play',
-        [direction],
-        account
+        data,
+        session?.account.address ?? account,
+        fees,
+        // Gas grows with the number of tiles the contract handles
+        getGasLimitKey(data, (16 - emptyCells(unpackBoard(resultBoard)).length) >> 2)
       );
 
-      await writeContract({
-        address: gameContractAddress,
-        abi: [{
-          name: 'play',
-          type: 'function',
-          inputs: [{ name: 'direction', type: 'uint8' }],
-          outputs: [],
-          stateMutability: 'nonpayable'
-        }],
-        functionName: 'play',
-        args: [direction],
-        ...gasConfig
-      });
+      if (session) {
+        await sendWithSessionKey(session, data, gasConfig);
+      } else {
+        await writeContract({
+          address: gameContractAddress,
+          ...playCall(gameId, direction, resultBoard),
+          ...gasConfig
+        });
+      }
 
       console.log('✅ Move transaction submitted');
     } catch (error) {
       console.error('❌ Play move failed:', error);
       throw error;
     }
-  }, [gameContractAddress, getOptimizedGasConfig, writeContract]);
+  }, [gameContractAddress, session, preflightByDefault, assertWalletChain, runPreflight, getOptimizedGasConfig, sendWithSessionKey, writeContract]);
 
   return {
     startGame,
     playMove,
+    startSession,
+    endSession,
+    // Address that plays while a session is active
+    sessionAddress: session?.account.address,
+    sessionExpiresAt: session?.expiresAt,
     hash,
     isWritePending,
     isConfirming,
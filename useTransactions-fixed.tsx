@@ -1,297 +1,1067 @@
-import { Button } from "@/components/ui/button";
-import { publicClient } from "@/utils/client";
-import { GAME_CONTRACT_ADDRESS } from "@/utils/constants";
-import { post } from "@/utils/fetch";
-import { usePrivy, useWallets } from "@privy-io/react-auth";
-import { ExternalLink } from "lucide-react";
-import { useEffect, useRef } from "react";
+import { ConnectedWallet, usePrivy, useWallets } from "@privy-io/react-auth";
+import { useEffect, useMemo, useRef } from "react";
 import { toast } from "sonner";
 import {
-    createWalletClient,
+    createPublicClient,
     custom,
-    encodeFunctionData,
-    formatEther,
     Hex,
-    parseEther,
-    parseGwei,
+    keccak256,
+    parseTransaction,
+    TransactionReceiptNotFoundError,
 } from "viem";
-import { waitForTransactionReceipt } from "viem/actions";
-import { megaethTestnet } from "viem/chains";
+import {
+    DEFAULT_FEE_STRATEGIES,
+    estimateFees,
+    FeeOptions,
+    FunctionFeeStrategies,
+    resolveFees,
+} from "./feeStrategy";
+import {
+    encodePlay,
+    encodeStartGame,
+    GameBoardArray,
+    GameBoards,
+    GameMoves,
+    getBoardCall,
+} from "./mega2048Contract";
+import { createNonceManager } from "./nonceManager";
+import {
+    emptyCells,
+    packBoard,
+    unpackBoard,
+    validateTransition,
+} from "./boardEngine";
+import { createBoardSync, LocalGameState } from "./boardSync";
+import { createMovePipeline } from "./movePipeline";
+import { createBalanceLedger } from "./balanceLedger";
+import { createRpcPool, RpcEndpoint } from "./rpcPool";
+import { createRemediationPolicy } from "./remediation";
+import {
+    ConfirmationTimeoutError,
+    createConfirmationTracker,
+} from "./confirmationTracker";
+import { createTelemetry, TransactionRecorder } from "./telemetry";
+import {
+    AlreadyKnownError,
+    classifyError,
+    ContractRevertError,
+    TransactionError,
+} from "./rpcErrors";
+import {
+    createGasLimitCache,
+    getGasLimitKey,
+    isOutOfGas,
+} from "./gasLimitCache";
+import { createOutbox, OutboxEntry, openOutboxStore } from "./outbox";
+import { createGameHistoryReader, GameHistoryReader } from "./gameHistory";
+import {
+    createGameIndex,
+    createLocalStorageIndexCache,
+    GameIndex,
+} from "./gameIndex";
+import { SimulatedChain } from "./simulatedChain";
+import {
+    getExplorerUrl,
+    getNetworkProfile,
+    getRpcEndpoints,
+    MEGAETH_TESTNET,
+    NetworkProfile,
+} from "./networkProfiles";
+import { createTransactionStore } from "./transactionStore";
+import { createWalletSession, WalletConnection } from "./walletSession";
+import {
+    createEip1193Signer,
+    createPrivySigner,
+    Signer,
+    SignerTransaction,
+} from "./signer";
+import { preflightCall } from "./preflight";
+import {
+    buildGameSetup,
+    GameSetup,
+    GameSetupError,
+    validateOpening,
+} from "./gameSetup";
+import { showTransactionStatus } from "./TransactionStatus";
+import { AutoplayGasError, createAutoplay } from "./autoplay";
+import { createExpectimaxSolver, HeuristicWeights } from "./expectimax";
+import {
+    bumpFees,
+    createReplacementTracker,
+    ReplaceableTransaction,
+    ReplacementKind,
+    ReplacementOutcome,
+    TransactionReplacedError,
+} from "./transactionReplacement";
+
+// A broadcast transaction awaiting its receipt.
+type SentTransaction = {
+    hash: Hex;
+    nonce: number;
+    gasLimit: bigint;
+    gasKey: string;
+    startTime: number;
+    successText?: string;
+    record: TransactionRecorder;
+    // Entry in the session's transaction store.
+    transactionId: number;
+};
+
+// Parameters of a single contract transaction.
+type SendRequest = {
+    successText?: string;
+    // Groups settled costs, e.g. "play" for affordable-move estimates.
+    label?: string;
+    data: Hex;
+    // Gas-limit cache key; defaults to the function selector.
+    gasKey?: string;
+    gas?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    fees?: FeeOptions;
+    // Game the transaction belongs to, kept in the outbox across reloads.
+    game?: { gameId: Hex; moveNumber?: number };
+    onSent?: (hash: Hex) => void;
+    // Simulate before signing; defaults to the hook's `preflight`.
+    preflight?: boolean;
+};
+
+// Retries after applying an error's remediation.
+const MAX_SEND_RETRIES = 1;
+
+// Interval of the checks for whether the node serves a sent transaction.
+const FIRST_SEEN_POLL_MS = 100;
+
+// How long a transaction nobody waits on any more is still followed, e.g.
+// after its confirmation timed out or when it was resumed after a reload.
+const FOLLOW_TIMEOUT_MS = 10 * 60_000;
+
+// A `play` call, sent directly or through the move pipeline.
+type MoveRequest = {
+    gameId: Hex;
+    board: bigint;
+    move: number;
+    moveNumber: number;
+    fees?: FeeOptions;
+    preflight?: boolean;
+};
+
+export function useTransactions({
+    network = MEGAETH_TESTNET,
+    feeStrategies,
+    maxMovesInFlight = 4,
+    lowBalanceWarningMoves,
+    rpcEndpoints,
+    webSocketUrl,
+    confirmationTimeoutMs = 30_000,
+    gasHeadroomPercent = 20n,
+    preflight: preflightByDefault = false,
+    signer: fixedSigner,
+    simulatedChain,
+}: {
+    // Network played on at mount; `switchNetwork` changes it.
+    network?: NetworkProfile;
+    // Default fee strategy per contract function, over the network's.
+    feeStrategies?: Partial<FunctionFeeStrategies>;
+    // Unconfirmed moves the pipeline keeps in flight.
+    maxMovesInFlight?: number;
+    // Overrides the network's low-balance warning threshold.
+    lowBalanceWarningMoves?: number;
+    // Overrides the network's RPC endpoints. Read on mount.
+    rpcEndpoints?: RpcEndpoint[];
+    // Overrides the network's WebSocket URL. Read on mount.
+    webSocketUrl?: string;
+    // After this, a transaction is reported as not confirmed in time. Read
+    // on mount.
+    confirmationTimeoutMs?: number;
+    // Added on top of the gas a function was seen to use.
+    gasHeadroomPercent?: bigint;
+    // Simulates each `startGame` and `play` against the pending state and
+    // refuses to send the ones that would revert. Costs a round trip.
+    preflight?: boolean;
+    // Signs with this instead of the user's Privy wallet, e.g. an injected
+    // wallet or a local key.
+    signer?: Signer;
+    // Runs against an in-memory chain and its account instead of the
+    // network and Privy. Read on mount.
+    simulatedChain?: SimulatedChain;
+} = {}) {
+    // Chain, endpoints, contract and defaults currently played on.
+    const activeNetwork = useRef(network);
+    const networkListeners = useMemo(
+        () => new Set<(network: NetworkProfile) => void>(),
+        []
+    );
+
+    function getFeeStrategies(): FunctionFeeStrategies {
+        return {
+            ...DEFAULT_FEE_STRATEGIES,
+            ...activeNetwork.current.feeStrategies,
+            ...feeStrategies,
+        };
+    }
+
+    // Reads and broadcasts go to the healthiest endpoint of the pool.
+    const rpcPool = useMemo(
+        () =>
+            createRpcPool({
+                endpoints: simulatedChain
+                    ? [simulatedChain.endpoint]
+                    : (rpcEndpoints ?? getRpcEndpoints(network)),
+            }),
+        []
+    );
+    // No chain: reads follow the pool across network switches.
+    const publicClient = useMemo(
+        () => createPublicClient({ transport: custom(rpcPool) }),
+        [rpcPool]
+    );
+
+    useEffect(() => {
+        rpcPool.start();
+        simulatedChain?.start();
+        return () => {
+            rpcPool.stop();
+            simulatedChain?.stop();
+        };
+    }, [rpcPool]);
+
+    // Resolves receipts from pushed heads and logs, polling as a fallback.
+    // Created once: the move pipeline and the nonce manager wait on it, and
+    // a new one would strand their pending receipts.
+    const confirmations = useMemo(
+        () =>
+            createConfirmationTracker({
+                client: publicClient,
+                webSocketUrl: webSocketUrl ?? network.webSocketUrl,
+                contractAddress: network.contractAddress,
+                timeoutMs: confirmationTimeoutMs,
+            }),
+        [publicClient]
+    );
+
+    useEffect(() => {
+        confirmations.start();
+        return () => confirmations.stop();
+    }, [confirmations]);
+
+    // Learned gas limits, so moves don't wait on `eth_estimateGas`. Rebuilt
+    // when the headroom changes, and read through a ref because the move
+    // pipeline keeps the functions of the render that created it.
+    const gasLimitCache = useMemo(
+        () => createGasLimitCache({ headroomPercent: gasHeadroomPercent }),
+        [gasHeadroomPercent]
+    );
+    const gasLimits = useRef(gasLimitCache);
+    gasLimits.current = gasLimitCache;
+
+    // One structured event per transaction, with latency percentiles.
+    const telemetry = useMemo(() => createTelemetry(), []);
+
+    // Every transaction of the session as the player sees it. Each one is
+    // shown as a single toast, updated as it progresses.
+    const transactions = useMemo(() => createTransactionStore(), []);
+    useEffect(
+        () =>
+            transactions.subscribe((summary) =>
+                showTransactionStatus(
+                    summary,
+                    summary.hash && getTransactionUrl(summary.hash),
+                    { speedUp, cancel }
+                )
+            ),
+        [transactions]
+    );
 
-export function useTransactions() {
     // User and Wallet objects.
     const { user } = usePrivy();
     const { ready, wallets } = useWallets();
 
     // Fetch user nonce on new login.
-    const userNonce = useRef(0);
-    const userBalance = useRef(0n);
+    const balanceLedger = useMemo(() => createBalanceLedger(), []);
     const userAddress = useRef("");
 
-    // Resets nonce and balance
-    async function resetNonceAndBalance() {
-        if (!user) {
-            return;
-        }
-        const [privyUser] = user.linkedAccounts.filter(
-            (account) =>
-                account.type === "wallet" &&
-                account.walletClientType === "privy"
-        );
-        if (!privyUser || !(privyUser as any).address) {
-            return;
-        }
-        const privyUserAddress = (privyUser as any).address;
+    // Worst-case cost of the last move, used until moves have settled.
+    const lastMoveCost = useRef<bigint | undefined>(undefined);
+    const lowBalanceWarned = useRef(false);
 
-        const nonce = await publicClient.getTransactionCount({
-            address: privyUserAddress as Hex,
-        });
+    // Tracks reserved, sent and confirmed nonces of the signer.
+    const nonceManager = useMemo(
+        () =>
+            createNonceManager({
+                getTransactionCount: (blockTag) =>
+                    publicClient.getTransactionCount({
+                        address: userAddress.current as Hex,
+                        blockTag,
+                    }),
+                fillGap: sendNonceFiller,
+            }),
+        []
+    );
+
+    // Signed transactions by hash, so stuck ones can be replaced.
+    const replacements = useMemo(() => createReplacementTracker(), []);
+
+    // Retries failed sends whose cause can be fixed without the player.
+    const remediation = useMemo(
+        () =>
+            createRemediationPolicy({
+                nonceManager,
+                getGasLimits: () => gasLimits.current,
+                refreshBalance: async () =>
+                    balanceLedger.reset(
+                        await publicClient.getBalance({
+                            address: userAddress.current as Hex,
+                        })
+                    ),
+                maxRetries: MAX_SEND_RETRIES,
+            }),
+        []
+    );
+
+    // Board each game will be at once every sent move lands.
+    const expectedBoards = useRef(new Map<Hex, bigint>());
+
+    // Signed but unconfirmed transactions, persisted across page reloads.
+    const outbox = useMemo(
+        () =>
+            createOutbox({
+                getChainId: () => activeNetwork.current.chain.id,
+                store: openOutboxStore(),
+                getReceipt: (hash) =>
+                    publicClient
+                        .getTransactionReceipt({ hash })
+                        .catch((error) => {
+                            if (error instanceof TransactionReceiptNotFoundError) {
+                                return null;
+                            }
+                            throw error;
+                        }),
+                getTransactionCount: (address) =>
+                    publicClient.getTransactionCount({
+                        address,
+                        blockTag: "latest",
+                    }),
+                isKnown: (hash) =>
+                    publicClient
+                        .getTransaction({ hash })
+                        .then(() => true)
+                        .catch(() => false),
+                broadcast: async (signedTransaction) =>
+                    (await broadcastRawTransaction(signedTransaction)).hash,
+            }),
+        []
+    );
+
+    // Reads finished and ongoing games back from the chain. Created on first
+    // use for the active network.
+    const gameHistory = useRef<GameHistoryReader | null>(null);
+    // Player stats and leaderboard of the active network, also created on
+    // first use.
+    const gameIndex = useRef<GameIndex | null>(null);
+
+    // Reconciles games with the chain after a move fails.
+    const boardSync = useMemo(
+        () =>
+            createBoardSync({
+                readBoard: (gameId) => getLatestGameBoard(gameId, "pending"),
+                cancelMove: cancel,
+            }),
+        []
+    );
+
+    // Loads the nonce and balance of the account a wallet session opened
+    // for. Stops as soon as the session is replaced.
+    async function loadAccount(signerAddress: Hex, signal: AbortSignal) {
+        userAddress.current = signerAddress;
+
+        // Rebroadcast what an earlier session left unconfirmed before the
+        // nonce is read, so its nonces aren't handed out again.
+        const reconciliation = await outbox
+            .reconcile(signerAddress)
+            .catch((error) => {
+                console.warn("Failed to reconcile outbox:", error);
+                return null;
+            });
+        signal.throwIfAborted();
+
+        const nonce = await nonceManager.reset();
         const balance = await publicClient.getBalance({
-            address: privyUserAddress as Hex,
+            address: signerAddress,
         });
+        signal.throwIfAborted();
 
         console.log("Setting nonce: ", nonce);
         console.log("Setting balance: ", balance.toString());
 
-        userNonce.current = nonce;
-        userBalance.current = balance;
-        userAddress.current = privyUserAddress;
-    }
+        balanceLedger.reset(balance);
+        lowBalanceWarned.current = false;
 
-    useEffect(() => {
-        resetNonceAndBalance();
-    }, [user]);
+        if (reconciliation) {
+            [...reconciliation.pending, ...reconciliation.rebroadcast].forEach(
+                resumeTransaction
+            );
+        }
+    }
 
-    // Fetch provider on new login.
-    const walletClient = useRef<any>(null);
-    useEffect(() => {
-        async function getWalletClient() {
-            if (!ready || !wallets) return;
+    // Tracks a transaction sent by an earlier session until it is mined.
+    function resumeTransaction(entry: OutboxEntry) {
+        const hash = entry.hashes[entry.hashes.length - 1];
+        const parsed = parseTransaction(entry.signedTransaction);
+        const transaction = {
+            nonce: entry.nonce,
+            to: parsed.to ?? (userAddress.current as Hex),
+            data: parsed.data ?? "0x",
+            value: parsed.value ?? 0n,
+            gas: parsed.gas ?? 0n,
+            maxFeePerGas: parsed.maxFeePerGas ?? 0n,
+            maxPriorityFeePerGas: parsed.maxPriorityFeePerGas ?? 0n,
+        };
 
-            const userWallet = wallets.find(
-                (w) => w.walletClientType == "privy"
+        nonceManager.markSent(entry.nonce, hash);
+        try {
+            balanceLedger.reserve(
+                entry.nonce,
+                transaction.gas * transaction.maxFeePerGas + transaction.value,
+                entry.label
             );
-            if (!userWallet) return;
+        } catch (error) {
+            console.warn("Failed to reserve resumed transaction:", error);
+        }
 
-            const ethereumProvider = await userWallet.getEthereumProvider();
-            const provider = createWalletClient({
-                chain: megaethTestnet,
-                transport: custom(ethereumProvider),
+        // Already followed by this session.
+        if (replacements.latest(hash)) {
+            return;
+        }
+        const transactionId = transactions.begin({
+            label: entry.label ?? "transaction",
+            gameId: entry.gameId,
+            moveNumber: entry.moveNumber,
+        });
+        transactions.update(transactionId, { status: "broadcast", hash });
+
+        replacements.track(hash, transaction);
+        replacements
+            .waitForReceipt(confirmations, hash, {
+                timeoutMs: FOLLOW_TIMEOUT_MS,
+            })
+            .then(({ receipt, hash: confirmedHash }) => {
+                transactions.update(transactionId, {
+                    status: "confirmed",
+                    hash: confirmedHash,
+                    gasCost: receipt.gasUsed * receipt.effectiveGasPrice,
+                });
+                replacements.forget(hash);
+                nonceManager.markConfirmed(entry.nonce);
+                balanceLedger.settle(
+                    entry.nonce,
+                    receipt.gasUsed * receipt.effectiveGasPrice
+                );
+                outbox.settle(userAddress.current as Hex, entry.nonce);
+            })
+            .catch((error) => {
+                console.warn(`Failed to confirm resumed ${hash}:`, error);
+                if (error instanceof ConfirmationTimeoutError) {
+                    transactions.update(transactionId, { status: "timeout" });
+                    return;
+                }
+                transactions.update(transactionId, {
+                    status: "failed",
+                    error: classifyError(error).message,
+                });
             });
+    }
 
-            console.log("Setting provider: ", provider);
-            walletClient.current = provider;
+    // Signer, account and chain sends use, replaced as one unit on login,
+    // logout, account switch and chain change.
+    const walletSession = useMemo(
+        () =>
+            createWalletSession<Signer>({
+                getExpectedChainId: () => activeNetwork.current.chain.id,
+            }),
+        []
+    );
+
+    // The signer to play with: the simulated chain's account, the one
+    // passed in, or the user's wallet. Privy's embedded wallet is preferred
+    // over external ones. Resolves null while there is none.
+    async function getSigner(): Promise<Signer | null> {
+        if (simulatedChain) {
+            return createEip1193Signer({
+                provider: simulatedChain,
+                address: simulatedChain.address as Hex,
+            });
+        }
+        if (fixedSigner) {
+            return fixedSigner;
         }
+        const userWallet = getUserWallet();
+        return userWallet ? createPrivySigner(userWallet) : null;
+    }
 
-        getWalletClient();
-    }, [user, ready, wallets]);
+    function getUserWallet(): ConnectedWallet | null {
+        if (!user || !ready || !wallets) return null;
+        return (
+            wallets.find((w) => w.walletClientType == "privy") ??
+            wallets[0] ??
+            null
+        );
+    }
 
-    // Get current gas price from the network
-    async function getCurrentGasPrices() {
-        try {
-            // Get current base fee
-            const latestBlock = await publicClient.getBlock();
-            const baseFeePerGas = latestBlock.baseFeePerGas || parseGwei("1");
-            
-            // Set maxFeePerGas to baseFee * 2 for better chances of inclusion
-            // Set maxPriorityFeePerGas to a reasonable tip
-            const maxFeePerGas = baseFeePerGas * 2n;
-            const maxPriorityFeePerGas = parseGwei("1"); // 1 Gwei tip
-            
-            console.log("Current base fee:", baseFeePerGas.toString());
-            console.log("Max fee per gas:", maxFeePerGas.toString());
-            console.log("Max priority fee:", maxPriorityFeePerGas.toString());
-            
-            return { maxFeePerGas, maxPriorityFeePerGas };
-        } catch (error) {
-            console.warn("Failed to get current gas prices, using defaults:", error);
-            // Fallback to higher defaults if network call fails
-            return {
-                maxFeePerGas: parseGwei("2.0"), // Increased from 0.05
-                maxPriorityFeePerGas: parseGwei("1.0"), // Increased from 0.01
-            };
+    // Connects the signer to the active chain and follows its chain changes
+    // until the session ends.
+    async function connectWallet(
+        signal: AbortSignal
+    ): Promise<WalletConnection<Signer> | null> {
+        const { chain } = activeNetwork.current;
+        const signer = await getSigner();
+        if (!signer) return null;
+        console.log(`Setting ${signer.kind} signer: ${signer.address}`);
+
+        let chainId = await signer.getChainId();
+        if (chainId !== chain.id) {
+            // Most wallets can follow; if not, sends are refused until the
+            // user switches.
+            await signer.switchChain(chain.id).catch((error) => {
+                console.warn("Failed to switch wallet chain:", error);
+            });
+            chainId = await signer.getChainId();
         }
+        signal.throwIfAborted();
+
+        const stopFollowing = signer.onChainChanged((chainId) =>
+            walletSession.setChainId(chainId)
+        );
+        signal.addEventListener("abort", stopFollowing);
+
+        return { client: signer, address: signer.address, chainId };
+    }
+
+    // Opens a wallet session for the current login, replacing the previous
+    // one, and reloads the nonce and balance for it.
+    async function resetNonceAndBalance() {
+        await walletSession.open(async (signal) => {
+            const connection = await connectWallet(signal);
+            if (connection) {
+                await loadAccount(connection.address, signal);
+            }
+            return connection;
+        });
     }
 
-    // Estimate gas for a transaction
-    async function estimateGas(data: Hex): Promise<bigint> {
+    // Account and chain of the user's wallet. Privy hands out a new
+    // `wallets` array on every change, so the session is only reopened when
+    // these differ.
+    const userWallet = getUserWallet();
+    const userWalletKey = userWallet
+        ? `${userWallet.address}:${userWallet.chainId}`
+        : null;
+
+    useEffect(() => {
+        resetNonceAndBalance().catch((error) => {
+            console.warn("Failed to open wallet session:", error);
+        });
+    }, [userWalletKey, fixedSigner]);
+
+    useEffect(() => () => walletSession.close(), [walletSession]);
+
+    // Get current gas price from the network
+    async function getCurrentGasPrices({
+        strategy = getFeeStrategies().play,
+        caps,
+    }: FeeOptions = {}) {
+        return estimateFees(publicClient, strategy, caps);
+    }
+
+    // Estimate gas for a transaction and seed the gas-limit cache
+    async function estimateGas(data: Hex, gasKey: string): Promise<bigint> {
         try {
-            const privyUserAddress = userAddress.current;
-            if (!privyUserAddress) {
+            const signerAddress = userAddress.current;
+            if (!signerAddress) {
                 throw new Error("User address not available");
             }
 
+            // Against `pending`, so moves still in flight are applied first.
             const estimatedGas = await publicClient.estimateGas({
-                account: privyUserAddress as Hex,
-                to: GAME_CONTRACT_ADDRESS,
+                account: signerAddress as Hex,
+                to: activeNetwork.current.contractAddress,
                 data,
+                blockTag: "pending",
             });
 
-            // Add 20% buffer to the estimated gas
-            const gasWithBuffer = (estimatedGas * 120n) / 100n;
+            gasLimits.current.seed(gasKey, estimatedGas);
+            const gasWithBuffer = gasLimits.current.get(gasKey)!;
             
             console.log("Estimated gas:", estimatedGas.toString());
             console.log("Gas with buffer:", gasWithBuffer.toString());
             
             return gasWithBuffer;
         } catch (error) {
+            // Reverts are left to the pre-flight: a node that doesn't hold
+            // the moves in flight yet reverts valid ones too.
             console.warn("Gas estimation failed, using fallback:", error);
-            // Return a conservative fallback gas limit
-            return BigInt(100000); // Reduced from 300k/200k
+            // The last limit learned for this key, however old, or a
+            // conservative fallback gas limit
+            const lastLimit = gasLimits.current.getLast(gasKey);
+            return lastLimit ?? BigInt(100000); // Reduced from 300k/200k
         }
     }
 
-    // Sends a transaction and wait for receipt.
-    async function sendRawTransactionAndConfirm({
-        successText,
-        data,
-        nonce,
-        gas,
-        maxFeePerGas,
-        maxPriorityFeePerGas,
-    }: {
-        successText?: string;
-        data: Hex;
-        nonce: number;
-        gas?: BigInt;
-        maxFeePerGas?: BigInt;
-        maxPriorityFeePerGas?: BigInt;
-    }) {
-        let e: Error | null = null;
+    // Broadcasts a signed transaction. Returns its hash and the endpoint
+    // that accepted it.
+    async function broadcastRawTransaction(
+        signedTransaction: Hex
+    ): Promise<{ hash: Hex; endpoint: string }> {
+        try {
+            const { result, url } = await rpcPool.requestWithEndpoint({
+                method: "eth_sendRawTransaction",
+                params: [signedTransaction],
+            });
+            return { hash: result as Hex, endpoint: url };
+        } catch (error) {
+            const classified = classifyError(error);
+            // The node already holds this exact transaction.
+            if (classified instanceof AlreadyKnownError) {
+                console.log("Transaction already known, treating as sent.");
+                return { hash: keccak256(signedTransaction), endpoint: "" };
+            }
+            throw classified;
+        }
+    }
 
+    // Signs with the wallet, or resolves null when it only signs as part of
+    // sending: the transaction then goes through `sendTransaction`.
+    async function signTransaction(
+        signer: Signer,
+        transaction: SignerTransaction
+    ): Promise<Hex | null> {
+        if (!signer.canSign() && signer.sendTransaction) {
+            return null;
+        }
         try {
-            // Sign and send transaction.
-            const provider = walletClient.current;
-            if (!provider) {
-                throw Error("Wallet not found.");
+            return await signer.signTransaction(transaction);
+        } catch (error) {
+            if (signer.canSign() || !signer.sendTransaction) {
+                throw error;
             }
-            const privyUserAddress = userAddress.current;
-            if (!privyUserAddress) {
-                throw Error("Privy user not found.");
+            console.log("Wallet can't sign alone, using eth_sendTransaction.");
+            return null;
+        }
+    }
+
+    // Signs and broadcasts through the pool, or has the wallet send it if
+    // it can't sign alone. `signedTransaction` is unset in that case.
+    async function submitTransaction(
+        signer: Signer,
+        transaction: SignerTransaction,
+        signal: AbortSignal
+    ): Promise<{ hash: Hex; signedTransaction?: Hex }> {
+        const signedTransaction = await signTransaction(signer, transaction);
+        signal.throwIfAborted();
+        if (!signedTransaction) {
+            return { hash: await signer.sendTransaction!(transaction) };
+        }
+        const { hash } = await broadcastRawTransaction(signedTransaction);
+        return { hash, signedTransaction };
+    }
+
+    // Occupies a nonce gap with a zero-value transfer to self.
+    async function sendNonceFiller(nonce: number): Promise<Hex> {
+        const { client: signer, address, signal } = walletSession.acquire();
+
+        const gasParams = await getCurrentGasPrices();
+        signal.throwIfAborted();
+        const gas = 21000n;
+        balanceLedger.reserve(nonce, gas * gasParams.maxFeePerGas);
+        let hash: Hex;
+        try {
+            ({ hash } = await submitTransaction(
+                signer,
+                {
+                    to: address,
+                    value: 0n,
+                    nonce,
+                    gas,
+                    maxFeePerGas: gasParams.maxFeePerGas,
+                    maxPriorityFeePerGas: gasParams.maxPriorityFeePerGas,
+                },
+                signal
+            ));
+        } catch (error) {
+            balanceLedger.release(nonce);
+            throw error;
+        }
+
+        // Charge the filler once mined; if it never is, stop holding for it.
+        confirmations
+            .wait(() => [hash])
+            .then(({ receipt }) =>
+                balanceLedger.settle(
+                    nonce,
+                    receipt.gasUsed * receipt.effectiveGasPrice
+                )
+            )
+            .catch((error) => {
+                console.warn(`Nonce filler ${hash} not confirmed:`, error);
+                balanceLedger.release(nonce);
+            });
+        return hash;
+    }
+
+    // Times how long until the node serves a sent transaction back to us.
+    // Polls until it does, or until the transaction settled.
+    function watchFirstSeen(hash: Hex, record: TransactionRecorder) {
+        const poll = () => {
+            if (record.finished()) {
+                return;
+            }
+            publicClient.getTransaction({ hash }).then(
+                () => record.mark("firstSeen"),
+                () => setTimeout(poll, FIRST_SEEN_POLL_MS)
+            );
+        };
+        poll();
+    }
+
+    // Signs and broadcasts a transaction without waiting for its receipt.
+    // `transactionId` is the store entry shared by all attempts.
+    async function sendRawTransactionOnce(
+        {
+            successText,
+            data,
+            gasKey = getGasLimitKey(data),
+            gas,
+            maxFeePerGas,
+            maxPriorityFeePerGas,
+            fees,
+            label,
+            game,
+            onSent,
+            preflight = preflightByDefault,
+        }: SendRequest,
+        transactionId: number
+    ): Promise<SentTransaction> {
+        let nonce: number | null = null;
+        let from: Hex | undefined;
+        let sessionSignal: AbortSignal | undefined;
+        const record = telemetry.begin(label ?? "transaction", {
+            feeStrategy:
+                maxFeePerGas && maxPriorityFeePerGas
+                    ? "explicit"
+                    : (fees?.strategy ?? getFeeStrategies().play).name,
+        });
+
+        try {
+            // Sign and send transaction. Refused while the wallet session
+            // isn't ready, and dropped if it changes before the broadcast.
+            const lease = walletSession.acquire();
+            const { client: signer, address: signerAddress, signal } = lease;
+            sessionSignal = lease.sessionSignal;
+            from = signerAddress;
+
+            // Refuse calls that would revert before a nonce is spent on them.
+            if (preflight) {
+                await preflightCall(publicClient, {
+                    from: signerAddress,
+                    to: activeNetwork.current.contractAddress,
+                    data,
+                    moveNumber: game?.moveNumber,
+                });
             }
 
             // Get current gas prices if not provided
             const gasParams = maxFeePerGas && maxPriorityFeePerGas 
-                ? { maxFeePerGas, maxPriorityFeePerGas }
-                : await getCurrentGasPrices();
+                ? resolveFees({ maxFeePerGas, maxPriorityFeePerGas }, fees?.caps)
+                : await getCurrentGasPrices(fees);
+
+            // Use the learned gas limit; estimate only when there is none
+            const gasLimit =
+                gas ||
+                gasLimits.current.get(gasKey) ||
+                (await estimateGas(data, gasKey));
+            record.mark("estimated");
+            record.set({
+                gasEstimated: gasLimit,
+                maxFeePerGas: gasParams.maxFeePerGas,
+                maxPriorityFeePerGas: gasParams.maxPriorityFeePerGas,
+            });
 
-            // Estimate gas if not provided
-            const gasLimit = gas || await estimateGas(data);
+            signal.throwIfAborted();
+            nonce = nonceManager.reserve();
+
+            // Hold the worst case until the receipt tells the real cost.
+            const worstCaseCost = gasLimit * gasParams.maxFeePerGas;
+            balanceLedger.reserve(nonce, worstCaseCost, label);
+            if (label === "play") {
+                lastMoveCost.current = worstCaseCost;
+            }
 
             const startTime = Date.now();
             // Sign with explicit EIP-1559 parameters
-            const signedTransaction = await provider.signTransaction({
-                to: GAME_CONTRACT_ADDRESS,
-                account: privyUserAddress,
+            const transaction: SignerTransaction = {
+                to: activeNetwork.current.contractAddress,
                 data,
                 nonce,
                 gas: gasLimit,
                 maxFeePerGas: gasParams.maxFeePerGas,
                 maxPriorityFeePerGas: gasParams.maxPriorityFeePerGas,
-            });
+            };
+            const signedTransaction = await signTransaction(
+                signer,
+                transaction
+            );
+            signal.throwIfAborted();
 
-            
-            const rpcUrl = window.location.hostname === 'localhost' 
-                ? '/megaeth-rpc'  
-                : 'https://carrot.megaeth.com/rpc'; 
-
-            const response = await post({
-                url: rpcUrl,
-                params: {
-                    id: 0,
-                    jsonrpc: "2.0",
-                    method: "eth_sendRawTransaction",
-                    params: [signedTransaction],
-                },
-                includeCredentials: false, 
-                
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                
-                retries: 3,
-                retryDelay: 2000
-            });
-            
-            const time = Date.now() - startTime;
+            let transactionHash: Hex;
+            if (signedTransaction) {
+                record.mark("signed");
 
-            if (response.error) {
-                console.log(`Failed sent in ${time} ms`);
-                throw Error(response.error.message);
+                // Persisted in the background; reloads pick it up from there.
+                outbox.add({
+                    from: signerAddress,
+                    nonce,
+                    hashes: [keccak256(signedTransaction)],
+                    signedTransaction,
+                    label,
+                    ...game,
+                });
+
+                try {
+                    const broadcast = await broadcastRawTransaction(
+                        signedTransaction
+                    );
+                    transactionHash = broadcast.hash;
+                    record.mark("broadcast");
+                    record.set({
+                        hash: transactionHash,
+                        nonce,
+                        endpoint: broadcast.endpoint,
+                    });
+                } catch (error) {
+                    console.log(`Failed sent in ${Date.now() - startTime} ms`);
+                    throw error;
+                }
+            } else {
+                // The wallet signs and broadcasts in one step, so there is
+                // no signed copy to keep for a rebroadcast.
+                transactionHash = await signer.sendTransaction!(transaction);
+                record.mark("signed");
+                record.mark("broadcast");
+                record.set({ hash: transactionHash, nonce, endpoint: "wallet" });
             }
 
-            const transactionHash: Hex = response.result;
-
-            // Fire toast info with benchmark and transaction hash.
-            console.log(`Transaction sent in ${time} ms: ${response.result}`);
-            toast.info(`Sent transaction.`, {
-                description: `${successText} Time: ${time} ms`,
-                action: (
-                    <Button
-                        className="outline outline-white"
-                        onClick={() =>
-                            window.open(
-                                `https://megaexplorer.xyz/tx/${transactionHash}`,
-                                "_blank",
-                                "noopener,noreferrer"
-                            )
-                        }
-                    >
-                        <div className="flex items-center gap-1 p-1">
-                            <p>View</p>
-                            <ExternalLink className="w-4 h-4" />
-                        </div>
-                    </Button>
-                ),
+            watchFirstSeen(transactionHash, record);
+
+            nonceManager.markSent(nonce, transactionHash);
+            replacements.track(transactionHash, {
+                nonce,
+                to: activeNetwork.current.contractAddress,
+                data,
+                value: 0n,
+                gas: gasLimit,
+                maxFeePerGas: gasParams.maxFeePerGas,
+                maxPriorityFeePerGas: gasParams.maxPriorityFeePerGas,
             });
+            onSent?.(transactionHash);
+            const time = Date.now() - startTime;
 
-            // Confirm transaction
-            const receipt = await waitForTransactionReceipt(publicClient, {
+            console.log(`Transaction sent in ${time} ms: ${transactionHash}`);
+            transactions.update(transactionId, {
+                status: "broadcast",
                 hash: transactionHash,
             });
 
-            if (receipt.status == "reverted") {
-                console.log(
-                    `Failed confirmation in ${Date.now() - startTime} ms`
-                );
-                throw Error(
-                    `Failed to confirm transaction: ${transactionHash}`
-                );
+            return {
+                hash: transactionHash,
+                nonce,
+                gasLimit,
+                gasKey,
+                startTime,
+                successText,
+                record,
+                transactionId,
+            };
+        } catch (error) {
+            const e = error as Error;
+            record.finish("failed", e);
+
+            // A transaction that never reached the node must not be
+            // rebroadcast after a reload, whichever session is open now.
+            if (nonce !== null && from) {
+                outbox.settle(from, nonce);
+            }
+
+            // Its nonce is released, and any gap it leaves behind is filled
+            // so later moves don't stall. A new wallet session reloaded the
+            // nonces itself.
+            if (nonce !== null && !sessionSignal?.aborted) {
+                balanceLedger.release(nonce);
+                nonceManager.markFailed(nonce);
+                if (nonceManager.hasFailures()) {
+                    nonceManager.recover().catch((error) => {
+                        console.warn("Failed to recover nonce gaps:", error);
+                    });
+                }
             }
 
+            throw e;
+        }
+    }
+
+    // Signs and broadcasts a transaction. Errors whose remediation can be
+    // applied automatically are retried before giving up.
+    async function sendRawTransaction(
+        request: SendRequest
+    ): Promise<SentTransaction> {
+        const transactionId = transactions.begin({
+            label: request.label ?? "transaction",
+            description: request.successText,
+            gameId: request.game?.gameId,
+            moveNumber: request.game?.moveNumber,
+        });
+        try {
+            return await remediation.send(request, (attempt) =>
+                sendRawTransactionOnce(attempt, transactionId)
+            );
+        } catch (error) {
+            const e = error as TransactionError;
+            transactions.update(transactionId, {
+                status: "failed",
+                error: e.message,
+            });
+            throw e;
+        }
+    }
+
+    // Books the receipt of whichever transaction landed on the nonce of
+    // `sent`. Throws if it was cancelled or reverted.
+    function settleReceipt(
+        {
+            hash: transactionHash,
+            nonce,
+            gasLimit,
+            gasKey,
+            startTime,
+            record,
+            transactionId,
+        }: SentTransaction,
+        { receipt, hash: confirmedHash, kind }: ReplacementOutcome
+    ) {
+        replacements.forget(transactionHash);
+        nonceManager.markConfirmed(nonce);
+        outbox.settle(userAddress.current as Hex, nonce);
+        balanceLedger.settle(nonce, receipt.gasUsed * receipt.effectiveGasPrice);
+        warnIfLowBalance();
+        record.set({
+            hash: confirmedHash,
+            gasUsed: receipt.gasUsed,
+            effectiveGasPrice: receipt.effectiveGasPrice,
+        });
+        const gasCost = receipt.gasUsed * receipt.effectiveGasPrice;
+
+        if (kind === "cancel") {
             console.log(
-                `Transaction confirmed in ${Date.now() - startTime} ms: ${
-                    response.result
-                }`
+                `Transaction replaced in ${Date.now() - startTime} ms: ${confirmedHash}`
             );
-            toast.success(`Confirmed transaction.`, {
-                description: `${successText} Time: ${
-                    Date.now() - startTime
-                } ms`,
-                action: (
-                    <Button
-                        className="outline outline-white"
-                        onClick={() =>
-                            window.open(
-                                `https://megaexplorer.xyz/tx/${transactionHash}`,
-                                "_blank",
-                                "noopener,noreferrer"
-                            )
-                        }
-                    >
-                        <div className="flex items-center gap-1 p-1">
-                            <p>View</p>
-                            <ExternalLink className="w-4 h-4" />
-                        </div>
-                    </Button>
-                ),
+            transactions.update(transactionId, {
+                status: "replaced",
+                hash: confirmedHash,
+                gasCost,
+            });
+            record.finish("replaced");
+            throw new TransactionReplacedError(transactionHash, confirmedHash);
+        }
+
+        // Learn from the receipt; an out-of-gas revert forces a fresh
+        // estimate for the next transaction of this kind.
+        if (receipt.status == "reverted" && isOutOfGas(receipt.gasUsed, gasLimit)) {
+            gasLimits.current.invalidate(gasKey);
+        } else if (receipt.status == "success") {
+            gasLimits.current.observe(gasKey, receipt.gasUsed);
+        }
+
+        if (receipt.status == "reverted") {
+            console.log(`Failed confirmation in ${Date.now() - startTime} ms`);
+            record.finish("reverted");
+            transactions.update(transactionId, {
+                status: "failed",
+                hash: confirmedHash,
+                gasCost,
             });
+            throw new ContractRevertError(
+                undefined,
+                `Failed to confirm transaction: ${confirmedHash}`
+            );
+        }
+
+        console.log(
+            `Transaction confirmed in ${Date.now() - startTime} ms: ${
+                confirmedHash
+            }`
+        );
+        record.finish("confirmed");
+        transactions.update(transactionId, {
+            status: "confirmed",
+            hash: confirmedHash,
+            gasCost,
+        });
+    }
+
+    // Keeps following a transaction reported as not confirmed in time, so
+    // a later speed-up or cancel on its nonce is still booked and shown.
+    function followAfterTimeout(sent: SentTransaction) {
+        replacements
+            .waitForReceipt(confirmations, sent.hash, {
+                timeoutMs: FOLLOW_TIMEOUT_MS,
+            })
+            .then((outcome) => settleReceipt(sent, outcome))
+            .catch((error) => {
+                // Still shown as not confirmed in time.
+                if (
+                    error instanceof TransactionReplacedError ||
+                    error instanceof ConfirmationTimeoutError
+                ) {
+                    return;
+                }
+                transactions.update(sent.transactionId, {
+                    status: "failed",
+                    error: classifyError(error).message,
+                });
+            });
+    }
+
+    // Waits for the receipt of a sent transaction.
+    async function confirmTransaction(sent: SentTransaction): Promise<void> {
+        let e: Error | null = null;
+
+        try {
+            // Confirm transaction, following any speed-up or cancellation.
+            const outcome = await replacements.waitForReceipt(
+                confirmations,
+                sent.hash
+            );
+            settleReceipt(sent, outcome);
         } catch (error) {
             e = error as Error;
 
-            toast.error(`Failed to send transaction.`, {
-                description: `Error: ${e.message}`,
-            });
+            sent.record.finish(
+                e instanceof ConfirmationTimeoutError ? "timeout" : "failed",
+                e
+            );
+
+            if (e instanceof ConfirmationTimeoutError) {
+                // Still pending: it can be sped up or cancelled, and
+                // whichever transaction lands is still booked.
+                console.log(`Transaction not confirmed in time: ${sent.hash}`);
+                transactions.update(sent.transactionId, { status: "timeout" });
+                followAfterTimeout(sent);
+            } else if (!(e instanceof TransactionReplacedError)) {
+                e = classifyError(e);
+                transactions.update(sent.transactionId, {
+                    status: "failed",
+                    error: e.message,
+                });
+            }
         }
 
         if (e) {
@@ -299,183 +1069,581 @@ export function useTransactions() {
         }
     }
 
-    // Returns a the latest stored board of a game as an array.
+    // Explorer link of a transaction on the active network, if it has one.
+    function getTransactionUrl(hash: string) {
+        return getExplorerUrl(activeNetwork.current, "transaction", hash);
+    }
+
+    // Moves the available balance still covers, if it can be estimated.
+    function getAffordableMoves(): number | undefined {
+        return balanceLedger.affordable("play", lastMoveCost.current);
+    }
+
+    // Warns once when the player is about to run out of funds mid-game.
+    function warnIfLowBalance() {
+        const moves = getAffordableMoves();
+        if (moves === undefined || lowBalanceWarned.current) {
+            return;
+        }
+        const threshold =
+            lowBalanceWarningMoves ??
+            activeNetwork.current.lowBalanceWarningMoves;
+        if (moves < threshold) {
+            lowBalanceWarned.current = true;
+            toast.warning(`Low balance.`, {
+                description: `Enough for about ${moves} more moves.`,
+            });
+        }
+    }
+
+    // Sends a transaction and wait for receipt.
+    async function sendRawTransactionAndConfirm(params: SendRequest) {
+        const sent = await sendRawTransaction(params);
+        await confirmTransaction(sent);
+    }
+
+    // Signs and broadcasts a replacement on the nonce of `hash`.
+    async function sendReplacement(
+        hash: Hex,
+        kind: Exclude<ReplacementKind, "original">,
+        transaction: ReplaceableTransaction
+    ): Promise<Hex> {
+        const { client: signer, address, signal } = walletSession.acquire();
+
+        // Holds the replacement's cost instead of the original's, unless it
+        // never reaches the node: the original is still the one pending then.
+        const original = balanceLedger.reservation(transaction.nonce);
+        balanceLedger.reserve(
+            transaction.nonce,
+            transaction.gas * transaction.maxFeePerGas + transaction.value
+        );
+        let submitted;
+        try {
+            submitted = await submitTransaction(signer, transaction, signal);
+        } catch (error) {
+            balanceLedger.restore(transaction.nonce, original);
+            throw error;
+        }
+        const { hash: replacementHash, signedTransaction } = submitted;
+
+        replacements.replace(hash, replacementHash, kind, transaction);
+        if (signedTransaction) {
+            outbox.replace(
+                address,
+                transaction.nonce,
+                replacementHash,
+                signedTransaction
+            );
+        }
+        nonceManager.markSent(transaction.nonce, replacementHash);
+        console.log(`Sent ${kind} replacement: ${replacementHash}`);
+
+        return replacementHash;
+    }
+
+    // Returns the fees for a replacement of `transaction`: at least the
+    // minimum bump, and no lower than what the network currently asks for.
+    async function getReplacementFees(transaction: ReplaceableTransaction) {
+        const bumped = bumpFees(transaction);
+        const current = await getCurrentGasPrices();
+
+        const maxPriorityFeePerGas =
+            current.maxPriorityFeePerGas > bumped.maxPriorityFeePerGas
+                ? current.maxPriorityFeePerGas
+                : bumped.maxPriorityFeePerGas;
+        let maxFeePerGas =
+            current.maxFeePerGas > bumped.maxFeePerGas
+                ? current.maxFeePerGas
+                : bumped.maxFeePerGas;
+        if (maxFeePerGas < maxPriorityFeePerGas) {
+            maxFeePerGas = maxPriorityFeePerGas;
+        }
+
+        return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+
+    // Looks up the most recent transaction on the nonce of `hash`.
+    function getPendingReplacement(hash: Hex) {
+        const pending = replacements.latest(hash);
+        if (!pending) {
+            throw Error(`Unknown transaction: ${hash}`);
+        }
+        if (pending.settled) {
+            throw Error(`Transaction already confirmed: ${pending.settled}`);
+        }
+        return pending;
+    }
+
+    // Re-sends a stuck transaction with the same nonce and data, higher fees.
+    async function speedUp(hash: Hex): Promise<Hex> {
+        const { transaction } = getPendingReplacement(hash);
+        const fees = await getReplacementFees(transaction);
+
+        return sendReplacement(hash, "speedUp", { ...transaction, ...fees });
+    }
+
+    // Replaces a stuck transaction with a zero-value transfer to self.
+    async function cancel(hash: Hex): Promise<Hex> {
+        const { transaction } = getPendingReplacement(hash);
+        const fees = await getReplacementFees(transaction);
+
+        return sendReplacement(hash, "cancel", {
+            ...transaction,
+            ...fees,
+            to: userAddress.current as Hex,
+            data: "0x",
+            value: 0n,
+            gas: 21000n,
+        });
+    }
+
+    // Returns a the latest stored board of a game as an array. At `pending`
+    // it includes the moves still waiting to be mined.
     async function getLatestGameBoard(
-        gameId: Hex
-    ): Promise<
-        readonly [
-            readonly [
-                number,
-                number,
-                number,
-                number,
-                number,
-                number,
-                number,
-                number,
-                number,
-                number,
-                number,
-                number,
-                number,
-                number,
-                number,
-                number
-            ],
-            bigint
-        ]
-    > {
+        gameId: Hex,
+        blockTag: "latest" | "pending" = "latest"
+    ): Promise<readonly [GameBoardArray, bigint]> {
         const [latestBoard, nextMoveNumber] = await publicClient.readContract({
-            address: GAME_CONTRACT_ADDRESS,
-            abi: [
-                {
-                    type: "function",
-                    name: "getBoard",
-                    inputs: [
-                        {
-                            name: "gameId",
-                            type: "bytes32",
-                            internalType: "bytes32",
-                        },
-                    ],
-                    outputs: [
-                        {
-                            name: "boardArr",
-                            type: "uint8[16]",
-                            internalType: "uint8[16]",
-                        },
-                        {
-                            name: "nextMoveNumber",
-                            type: "uint256",
-                            internalType: "uint256",
-                        },
-                    ],
-                    stateMutability: "view",
-                },
-            ],
-            functionName: "getBoard",
-            args: [gameId],
+            address: activeNetwork.current.contractAddress,
+            ...getBoardCall(gameId),
+            blockTag,
         });
 
         return [latestBoard, nextMoveNumber];
     }
 
+    async function getGameHistory(gameId: Hex) {
+        if (!gameHistory.current) {
+            gameHistory.current = createGameHistoryReader({
+                client: publicClient,
+                contractAddress: activeNetwork.current.contractAddress,
+                fromBlock: activeNetwork.current.deployBlock,
+            });
+        }
+        return gameHistory.current.fetch(gameId);
+    }
+
+    // Index of every game on the active network. Call `sync` to catch up,
+    // or `watch` to follow new blocks; `switchNetwork` starts a new one.
+    function getGameIndex(): GameIndex {
+        if (!gameIndex.current) {
+            const { chain, contractAddress, deployBlock } = activeNetwork.current;
+            gameIndex.current = createGameIndex({
+                client: publicClient,
+                contractAddress,
+                fromBlock: deployBlock,
+                cache: createLocalStorageIndexCache(
+                    `mega2048-index:${chain.id}:${contractAddress.toLowerCase()}`
+                ),
+            });
+        }
+        return gameIndex.current;
+    }
+
+    // Brings a game back in line with the chain and cancels the moves that
+    // were sent on top of the diverged state.
+    async function resyncGame(
+        gameId: Hex,
+        local?: LocalGameState,
+        failedMoveNumber?: number
+    ) {
+        try {
+            const result = await boardSync.resync(
+                gameId,
+                local,
+                failedMoveNumber
+            );
+            expectedBoards.current.set(gameId, result.board);
+
+            if (result.diverged || result.discardedMoves.length) {
+                toast.info(`Resynced to move ${result.nextMoveNumber}.`, {
+                    description: result.discardedMoves.length
+                        ? `Discarded moves ${result.discardedMoves.join(", ")}.`
+                        : undefined,
+                });
+            }
+            return result;
+        } catch (error) {
+            console.warn("Failed to resync board:", error);
+            expectedBoards.current.delete(gameId);
+            throw error;
+        }
+    }
+
+    // Returns the board the next move of a game must start from.
+    async function getExpectedBoard(gameId: Hex): Promise<bigint> {
+        const expected = expectedBoards.current.get(gameId);
+        if (expected !== undefined) {
+            return expected;
+        }
+        const [latestBoard] = await getLatestGameBoard(gameId);
+        return packBoard(latestBoard);
+    }
+
+    // Builds the opening of a new game for the signer from `seed` (random by
+    // default) and checks it against the local rules and the chain.
+    async function prepareGame(seed?: Hex): Promise<GameSetup> {
+        const { address: player } = walletSession.acquire();
+        const setup = buildGameSetup({ player, seed });
+
+        // Unused game IDs read back as an empty board at move 0.
+        const [, nextMoveNumber] = await getLatestGameBoard(setup.gameId);
+        if (nextMoveNumber !== 0n) {
+            throw new GameSetupError(`Game ${setup.gameId} already exists.`);
+        }
+        return setup;
+    }
+
     // Initializes a game. Calls `prepareGame` and `startGame`.
+    async function startNewGame(
+        seed?: Hex,
+        fees?: FeeOptions
+    ): Promise<GameSetup> {
+        const setup = await prepareGame(seed);
+        await initializeGameTransaction(
+            setup.gameId,
+            setup.boards,
+            setup.moves,
+            fees
+        );
+        return setup;
+    }
+
+    // Sends `startGame` for an opening, e.g. one built by `prepareGame`.
     async function initializeGameTransaction(
         gameId: Hex,
-        boards: readonly [bigint, bigint, bigint, bigint],
-        moves: readonly [number, number, number]
+        boards: GameBoards,
+        moves: GameMoves,
+        fees?: FeeOptions,
+        preflight?: boolean
     ): Promise<void> {
-        const balance = userBalance.current;
-        if (parseFloat(formatEther(balance)) < 0.01) {
-            throw Error("Signer has insufficient balance.");
+        const sent = await sendStartGame(gameId, boards, moves, fees, preflight);
+        await confirmStartGame(gameId, sent);
+    }
+
+    // Validates and broadcasts `startGame` without waiting for its receipt.
+    async function sendStartGame(
+        gameId: Hex,
+        boards: GameBoards,
+        moves: GameMoves,
+        fees?: FeeOptions,
+        preflight?: boolean
+    ): Promise<SentTransaction> {
+        // Refuse openings the contract would revert on.
+        const invalidReason = validateOpening(boards, moves);
+        if (invalidReason) {
+            throw new GameSetupError(invalidReason);
         }
 
         // Sign and send transaction: start game
         console.log("Starting game!");
 
-        const data = encodeFunctionData({
-            abi: [
-                {
-                    type: "function",
-                    name: "startGame",
-                    inputs: [
-                        {
-                            name: "gameId",
-                            type: "bytes32",
-                            internalType: "bytes32",
-                        },
-                        {
-                            name: "boards",
-                            type: "uint128[4]",
-                            internalType: "uint128[4]",
-                        },
-                        {
-                            name: "moves",
-                            type: "uint8[3]",
-                            internalType: "uint8[3]",
-                        },
-                    ],
-                    outputs: [],
-                    stateMutability: "nonpayable",
-                },
-            ],
-            functionName: "startGame",
-            args: [gameId, boards, moves],
-        });
+        const data = encodeStartGame(gameId, boards, moves);
 
-        const nonce = userNonce.current;
-        userNonce.current = nonce + 1;
-        userBalance.current = balance - parseEther("0.0075");
+        expectedBoards.current.set(gameId, boards[3]);
 
-        await sendRawTransactionAndConfirm({
-            nonce: nonce,
-            successText: "Started game!",
-            data,
-            // Let the function estimate gas and get current gas prices
-        });
+        try {
+            return await sendRawTransaction({
+                successText: "Started game!",
+                data,
+                fees: { strategy: getFeeStrategies().startGame, ...fees },
+                label: "startGame",
+                game: { gameId },
+                preflight,
+                // Let the function estimate gas and get current gas prices
+            });
+        } catch (error) {
+            expectedBoards.current.delete(gameId);
+            throw error;
+        }
+    }
+
+    // Waits for a sent `startGame` to be confirmed.
+    async function confirmStartGame(
+        gameId: Hex,
+        sent: SentTransaction
+    ): Promise<void> {
+        try {
+            await confirmTransaction(sent);
+        } catch (error) {
+            expectedBoards.current.delete(gameId);
+            throw error;
+        }
+    }
+
+    // Validates and broadcasts a move without waiting for its receipt.
+    async function sendMove({
+        gameId,
+        board,
+        move,
+        moveNumber,
+        fees,
+        preflight,
+    }: MoveRequest): Promise<SentTransaction> {
+        // Sign and send transaction: play move
+        console.log(`Playing move ${moveNumber}!`);
+
+        // Refuse boards the contract would revert on.
+        const epoch = boardSync.epoch(gameId);
+        const previousBoard = await getExpectedBoard(gameId);
+        const invalidReason = validateTransition(previousBoard, move, board);
+        if (invalidReason) {
+            throw Error(`Invalid move ${moveNumber}: ${invalidReason}`);
+        }
+        if (boardSync.epoch(gameId) !== epoch) {
+            throw Error(`Move ${moveNumber} was discarded by a resync.`);
+        }
+
+        const data = encodePlay(gameId, move, board);
+
+        expectedBoards.current.set(gameId, board);
+        boardSync.trackMove(gameId, moveNumber);
+
+        try {
+            return await sendRawTransaction({
+                successText: `Played move ${moveNumber}`,
+                data,
+                fees: { strategy: getFeeStrategies().play, ...fees },
+                label: "play",
+                game: { gameId, moveNumber },
+                // Gas grows with the number of tiles the contract handles.
+                gasKey: getGasLimitKey(
+                    data,
+                    (16 - emptyCells(unpackBoard(board)).length) >> 2
+                ),
+                onSent: (hash) => boardSync.trackMove(gameId, moveNumber, hash),
+                preflight,
+                // Let the function estimate gas and get current gas prices
+            });
+        } catch (error) {
+            await handleFailedMove(gameId, moveNumber, board, error);
+            throw error;
+        }
+    }
+
+    // Waits for a sent move to be confirmed.
+    async function confirmMove(
+        { gameId, board, moveNumber }: MoveRequest,
+        sent: SentTransaction
+    ): Promise<void> {
+        try {
+            await confirmTransaction(sent);
+            boardSync.settleMove(gameId, moveNumber);
+        } catch (error) {
+            await handleFailedMove(gameId, moveNumber, board, error);
+            throw error;
+        }
+    }
+
+    // Brings the game back in sync after one of its moves failed.
+    async function handleFailedMove(
+        gameId: Hex,
+        moveNumber: number,
+        board: bigint,
+        error: unknown
+    ) {
+        // A move that timed out stays tracked, so the resync cancels it
+        // unless it landed or is still waiting to be mined.
+        if (!(error instanceof ConfirmationTimeoutError)) {
+            boardSync.settleMove(gameId, moveNumber);
+        }
+        // Moves cancelled by a resync need no second one.
+        if (!(error instanceof TransactionReplacedError)) {
+            await resyncGame(
+                gameId,
+                { board, nextMoveNumber: moveNumber + 1 },
+                moveNumber
+            ).catch(() => {});
+        }
     }
 
     async function playNewMoveTransaction(
         gameId: Hex,
         board: bigint,
         move: number,
-        moveCount: number
+        moveCount: number,
+        fees?: FeeOptions,
+        preflight?: boolean
     ): Promise<void> {
-        // Sign and send transaction: play move
-        console.log(`Playing move ${moveCount}!`);
+        const request = {
+            gameId,
+            board,
+            move,
+            moveNumber: moveCount,
+            fees,
+            preflight,
+        };
+        const sent = await sendMove(request);
+        await confirmMove(request, sent);
+    }
 
-        const balance = userBalance.current;
-        if (parseFloat(formatEther(balance)) < 0.01) {
-            throw Error("Signer has insufficient balance.");
+    // Sends moves back-to-back while earlier ones are still confirming.
+    const movePipeline = useMemo(
+        () =>
+            createMovePipeline<MoveRequest, SentTransaction>({
+                maxInFlight: maxMovesInFlight,
+                broadcast: sendMove,
+                confirm: confirmMove,
+                onHalt: (failedMoveNumber) => {
+                    toast.error(`Move ${failedMoveNumber} failed.`, {
+                        description: "Later moves were not played.",
+                    });
+                },
+            }),
+        [maxMovesInFlight]
+    );
+
+    // Queues a move behind the ones in flight. Resolves once it is
+    // confirmed; rejects if it or an earlier queued move failed. A pre-flight
+    // only sees earlier moves the node holds as pending.
+    function queueMoveTransaction(
+        gameId: Hex,
+        board: bigint,
+        move: number,
+        moveCount: number,
+        fees?: FeeOptions,
+        preflight?: boolean
+    ): Promise<void> {
+        return movePipeline.enqueue({
+            gameId,
+            board,
+            move,
+            moveNumber: moveCount,
+            fees,
+            preflight,
+        });
+    }
+
+    // Gas cost of a sent transaction once mined, whether it succeeded or
+    // not. Nothing was spent if it was never sent.
+    function getGasCost(sent?: SentTransaction): bigint {
+        return (sent && transactions.get(sent.transactionId)?.gasCost) ?? 0n;
+    }
+
+    // Rethrows `error` with the gas its transaction still cost, if mined.
+    function withGasCost(error: unknown, gasCost: bigint, gameId: Hex): never {
+        if (gasCost > 0n) {
+            throw new AutoplayGasError(gasCost, { gameId, cause: error });
         }
+        throw error;
+    }
 
-        const data = encodeFunctionData({
-            abi: [
-                {
-                    type: "function",
-                    name: "play",
-                    inputs: [
-                        {
-                            name: "gameId",
-                            type: "bytes32",
-                            internalType: "bytes32",
-                        },
-                        {
-                            name: "move",
-                            type: "uint8",
-                            internalType: "uint8",
-                        },
-                        {
-                            name: "resultBoard",
-                            type: "uint128",
-                            internalType: "uint128",
-                        },
-                    ],
-                    outputs: [],
-                    stateMutability: "nonpayable",
-                },
-            ],
-            functionName: "play",
-            args: [gameId, move, board],
+    // A bot that plays games with the signer, one confirmed move at a time.
+    // Call `run` to start it; its report is kept until the next run.
+    function createAutoplayBot({
+        depth,
+        heuristics,
+        spendLimit,
+        fees,
+    }: {
+        // Moves the solver looks ahead.
+        depth?: number;
+        heuristics?: HeuristicWeights;
+        // Most the bot may spend on gas in one run, in wei.
+        spendLimit?: bigint;
+        fees?: FeeOptions;
+    } = {}) {
+        return createAutoplay({
+            solver: createExpectimaxSolver({ depth, heuristics }),
+            spendLimit,
+            readBoard: getLatestGameBoard,
+            playMove: async (gameId, board, move, moveNumber) => {
+                const request = { gameId, board, move, moveNumber, fees };
+                let sent: SentTransaction | undefined;
+                try {
+                    sent = await sendMove(request);
+                    await confirmMove(request, sent);
+                } catch (error) {
+                    withGasCost(error, getGasCost(sent), gameId);
+                }
+                return getGasCost(sent);
+            },
+            startGame: async () => {
+                const setup = await prepareGame();
+                let sent: SentTransaction | undefined;
+                try {
+                    sent = await sendStartGame(
+                        setup.gameId,
+                        setup.boards,
+                        setup.moves,
+                        fees
+                    );
+                    await confirmStartGame(setup.gameId, sent);
+                } catch (error) {
+                    withGasCost(error, getGasCost(sent), setup.gameId);
+                }
+                return { gameId: setup.gameId, gasCost: getGasCost(sent) };
+            },
         });
+    }
 
-        const nonce = userNonce.current;
-        userNonce.current = nonce + 1;
-        userBalance.current = balance - parseEther("0.005");
+    // Moves play to another network: endpoints, contract and wallet chain
+    // follow, and nonce and balance are reloaded for it.
+    async function switchNetwork(next: NetworkProfile | string) {
+        const profile =
+            typeof next === "string" ? getNetworkProfile(next) : next;
+        activeNetwork.current = profile;
 
-        await sendRawTransactionAndConfirm({
-            nonce,
-            successText: `Played move ${moveCount}`,
-            data,
-            // Let the function estimate gas and get current gas prices
+        if (!simulatedChain) {
+            rpcPool.setEndpoints(getRpcEndpoints(profile));
+        }
+        confirmations.reconfigure({
+            webSocketUrl: profile.webSocketUrl,
+            contractAddress: profile.contractAddress,
         });
+        gameHistory.current = null;
+        gameIndex.current = null;
+        gasLimits.current.clear();
+        expectedBoards.current.clear();
+        lowBalanceWarned.current = false;
+
+        await resetNonceAndBalance();
+        networkListeners.forEach((listener) => listener(profile));
+    }
+
+    function subscribeToNetwork(listener: (network: NetworkProfile) => void) {
+        networkListeners.add(listener);
+        return () => {
+            networkListeners.delete(listener);
+        };
     }
 
     return {
+        getNetwork: () => activeNetwork.current,
+        switchNetwork,
+        subscribeToNetwork,
         resetNonceAndBalance,
+        getWalletState: walletSession.getState,
+        subscribeToWallet: walletSession.subscribe,
+        recoverNonceGaps: nonceManager.recover,
+        speedUp,
+        cancel,
+        getPendingTransactions: replacements.pending,
+        getConfirmationStatus: confirmations.getStatus,
+        getAvailableBalance: balanceLedger.available,
+        getAffordableMoves,
+        getRpcHealth: rpcPool.getHealth,
+        transactionHistory: transactions,
+        getTransactionUrl,
+        getLatencySummary: telemetry.summarize,
+        subscribeToTelemetry: telemetry.subscribe,
+        exportTelemetry: telemetry.exportSession,
+        subscribeToRpcHealth: rpcPool.subscribe,
+        prepareGame,
+        startNewGame,
         initializeGameTransaction,
         playNewMoveTransaction,
+        queueMoveTransaction,
+        resumeMovePipeline: movePipeline.resume,
+        getMovePipelineState: movePipeline.getState,
+        subscribeToMovePipeline: movePipeline.subscribe,
+        createAutoplayBot,
         getLatestGameBoard,
+        getGameHistory,
+        getGameIndex,
+        resyncGame,
+        subscribeToResync: boardSync.subscribe,
+        getOutboxEntries: outbox.list,
+        subscribeToOutbox: outbox.subscribe,
     };
 }
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { Hex } from "viem";
+import {
+    WalletNotReadyError,
+    WalletSessionChangedError,
+    WrongChainError,
+} from "./rpcErrors";
+
+export type WalletSessionStatus =
+    // No wallet, e.g. logged out.
+    | "disconnected"
+    // A wallet was found; its signer and account are being loaded.
+    | "connecting"
+    | "ready"
+    // Connected, but to another chain than the one played on.
+    | "wrongChain";
+
+export type WalletSessionState = {
+    status: WalletSessionStatus;
+    address?: Hex;
+    chainId?: number;
+};
+
+export type WalletConnection<C> = {
+    client: C;
+    address: Hex;
+    chainId: number;
+};
+
+// What a send holds on to: the signer, and signals aborted as soon as the
+// session it came from changes.
+export type WalletLease<C> = WalletConnection<C> & {
+    // Aborted on any change, including the chain.
+    signal: AbortSignal;
+    // Aborted only when another session replaced it: the nonce and balance
+    // state the send used belongs to that one now.
+    sessionSignal: AbortSignal;
+};
+
+export type WalletSession<C> = ReturnType<typeof createWalletSession<C>>;
+
+// Tracks the signer, account and chain as one unit. Each login, account
+// switch or chain change starts a new session and aborts sends still
+// preparing under the previous one, so a nonce of one account is never
+// signed by another.
+export function createWalletSession<C>({
+    getExpectedChainId,
+}: {
+    getExpectedChainId: () => number;
+}) {
+    let state: WalletSessionState = { status: "disconnected" };
+    let connection: WalletConnection<C> | null = null;
+    // Aborted when the session is replaced or closed.
+    let session = new AbortController();
+    // Also aborted on a chain change; sends hold this one.
+    let sends = new AbortController();
+    // The last `connect` call; the next one waits for it to settle.
+    let connecting: Promise<unknown> = Promise.resolve();
+    const listeners = new Set<(state: WalletSessionState) => void>();
+
+    function setState(next: WalletSessionState) {
+        state = next;
+        listeners.forEach((listener) => listener(state));
+    }
+
+    function statusOf(chainId: number): WalletSessionStatus {
+        return chainId === getExpectedChainId() ? "ready" : "wrongChain";
+    }
+
+    function abortSends() {
+        sends.abort(new WalletSessionChangedError());
+        sends = new AbortController();
+    }
+
+    function abortSession() {
+        session.abort(new WalletSessionChangedError());
+        session = new AbortController();
+        abortSends();
+        connection = null;
+    }
+
+    // Opens a session. `connect` finds the wallet and loads the account; it
+    // resolves null when there is no wallet, and runs only once the previous
+    // session's `connect` has settled. Returns false if a newer session
+    // replaced this one in the meantime.
+    async function open(
+        connect: (signal: AbortSignal) => Promise<WalletConnection<C> | null>
+    ): Promise<boolean> {
+        abortSession();
+        const { signal } = session;
+        setState({ status: "connecting" });
+
+        const attempt = connecting
+            .catch(() => {})
+            .then(() => (signal.aborted ? null : connect(signal)));
+        connecting = attempt;
+
+        let opened: WalletConnection<C> | null;
+        try {
+            opened = await attempt;
+        } catch (error) {
+            if (signal.aborted) {
+                return false;
+            }
+            setState({ status: "disconnected" });
+            throw error;
+        }
+        if (signal.aborted) {
+            return false;
+        }
+
+        connection = opened;
+        setState(
+            opened
+                ? {
+                      status: statusOf(opened.chainId),
+                      address: opened.address,
+                      chainId: opened.chainId,
+                  }
+                : { status: "disconnected" }
+        );
+        return true;
+    }
+
+    // Follows a chain change reported by the wallet. Sends preparing for the
+    // old chain are aborted.
+    function setChainId(chainId: number) {
+        if (!connection || connection.chainId === chainId) {
+            return;
+        }
+        abortSends();
+        connection = { ...connection, chainId };
+        setState({ ...state, status: statusOf(chainId), chainId });
+    }
+
+    function close() {
+        abortSession();
+        setState({ status: "disconnected" });
+    }
+
+    // Hands the signer to a send, or explains why there is none.
+    function acquire(): WalletLease<C> {
+        if (!connection) {
+            throw new WalletNotReadyError(state.status);
+        }
+        if (state.status === "wrongChain") {
+            throw new WrongChainError(connection.chainId, getExpectedChainId());
+        }
+        return {
+            ...connection,
+            signal: sends.signal,
+            sessionSignal: session.signal,
+        };
+    }
+
+    function subscribe(listener: (state: WalletSessionState) => void) {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    return {
+        open,
+        setChainId,
+        close,
+        acquire,
+        getState: () => state,
+        subscribe,
+    };
+}